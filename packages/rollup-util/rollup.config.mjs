@@ -7,9 +7,14 @@ import { nodeExternals as pluginNodeExternals } from "rollup-plugin-node-externa
 // eslint-disable-next-line import/no-default-export
 export default [
 	{
-		input: "./src/index.ts",
+		input: {
+			index: "./src/index.ts",
+			worker: "./src/worker.ts",
+		},
 		output: {
-			file: "./dist/index.mjs",
+			dir: "./dist",
+			entryFileNames: "[name].mjs",
+			chunkFileNames: "[name]-[hash].mjs",
 			format: "es",
 			sourcemap: true,
 		},
@@ -1,10 +1,12 @@
+import type { ChildProcess } from "node:child_process";
 import { access, constants as FSConstants } from "node:fs/promises";
 import { join } from "node:path";
 import { pathToFileURL } from "node:url";
 
-import { discoverModule, discoverWorkspace, getDependencies, type GraphNode, type Module, type TraversalResult } from "@calmdownval/workspaces-util";
+import { discoverModule, discoverWorkspace, getDependencies, scheduleTasks, type GraphNode, type Module, type TraversalResult } from "@calmdownval/workspaces-util";
 import { rollup, watch, type InputOptions, type OutputOptions, type RollupWatcher } from "rollup";
 
+import { buildInWorker, closeWorker, createWorkerReporter, notifyReady, receiveRequest, stopWorker } from "./BuildWorker";
 import type { Configurator } from "./Entity";
 import { createStatusReporter, formatTime, overrideConsole, println, type StatusKind, type StatusReporter } from "./status";
 
@@ -76,13 +78,14 @@ async function canAccessFile(path: string, mode: number = FSConstants.R_OK) {
 	}
 }
 
-export async function build(
-	cwd: string = process.cwd(),
-	args: readonly string[] = process.argv.slice(2),
-) {
-	const buildStartTime = Date.now();
-	let status!: StatusReporter;
+interface BuildSettings {
+	readonly targetEnv: TargetEnv;
+	readonly isWatching: boolean;
+	readonly isDebug: boolean;
+	readonly concurrency: number;
+}
 
+function parseBuildArgs(args: readonly string[]): BuildSettings {
 	// detect environment
 	const targetEnv: TargetEnv = (() => {
 		let env: string | undefined;
@@ -100,11 +103,44 @@ export async function build(
 
 	// detect watch mode
 	const isWatching = args.some(arg => /^--watch$/i.test(arg));
-	const watchers: RollupWatcher[] = [];
 
 	// debug mode
 	const isDebug = args.some(arg => /^--debug$/i.test(arg));
 
+	// detect the number of modules built at the same time
+	const concurrency = (() => {
+		const i = args.findIndex(it => /^--concurrency$/i.test(it));
+		if (i === -1) {
+			return 1;
+		}
+
+		const value = Number(args[i + 1]);
+		if (!Number.isInteger(value) || value < 1) {
+			throw new Error(`Invalid concurrency '${args[i + 1] ?? ""}', expected a positive integer.`);
+		}
+
+		return value;
+	})();
+
+	return { targetEnv, isWatching, isDebug, concurrency };
+}
+
+/**
+ * Builds the module at the given directory along with all workspace modules it depends on. With
+ * `--concurrency N` above 1, up to N modules are built at the same time, each in a child process
+ * with the module directory as its working directory.
+ */
+export async function build(
+	cwd: string = process.cwd(),
+	args: readonly string[] = process.argv.slice(2),
+) {
+	const buildStartTime = Date.now();
+	let status!: StatusReporter;
+
+	const { targetEnv, isWatching, isDebug, concurrency } = parseBuildArgs(args);
+	const watchers: RollupWatcher[] = [];
+	const workers: ChildProcess[] = [];
+
 	try {
 		// get the origin module to build
 		const originModule = await discoverModule(cwd);
@@ -125,94 +161,43 @@ export async function build(
 		status = createStatusReporter(tree.origin);
 		overrideConsole(status);
 
-		// build!
-		for (const currentNode of tree.orderedNodes) {
-			let moduleStartTime = Date.now();
-			const context: BuildContext = {
-				cwd: currentNode.module.baseDir,
-				moduleName: currentNode.module.package.name,
-				targetEnv,
-				isWatching,
-				isDebug,
-			};
-
-			try {
-				// check for a build config
-				const buildConfigPath = join(context.cwd, "build.config.mjs");
-				if (!(await canAccessFile(buildConfigPath))) {
-					status.update(currentNode, { kind: "SKIP" });
-					continue;
+		// build! each module starts as soon as all its dependencies have finished
+		await scheduleTasks({
+			nodes: tree.orderedNodes,
+			concurrency,
+			task: async (currentNode) => {
+				if (concurrency === 1) {
+					return buildModule(currentNode, { targetEnv, isWatching, isDebug, status, watchers });
 				}
 
-				// import the build.config.mjs definition file
-				currentTasks = [];
-				process.chdir(context.cwd);
-
-				const url = pathToFileURL(buildConfigPath).href;
-				await import(url);
-
-				// process queued tasks
-				const targets = (
-					await Promise.all(
-						currentTasks.map(task => task(context)),
-					)
-				)
-					.flat(1);
-
-				// build targets sequentially
-				for (const target of targets) {
-					await (isWatching ? buildAndWatch : buildOnce)({
-						context,
-						status,
-						node: currentNode,
-						outputs: target.outputs,
-						inputOptions: {
-							...target.input,
-							onLog(level, log) {
-								const isSuppressed = log.pluginCode !== undefined && target.suppressions.some(it => it.code === log.pluginCode && (!it.plugin || it.plugin === log.plugin));
-								if (isSuppressed) {
-									return;
-								}
-
-								if (level !== "debug" || isDebug) {
-									status.log(currentNode, `${log.pluginCode ? `[${log.pluginCode}]` : ""}${log.message}`, level);
-								}
-							},
-						},
-						registerWatcher: (watcher) => {
-							watchers.push(watcher);
-						},
-					});
+				// modules without a build config do not need a worker
+				if (!(await canAccessFile(join(currentNode.module.baseDir, "build.config.mjs")))) {
+					status.update(currentNode, { kind: "SKIP" });
+					return;
 				}
-			}
-			catch (ex: any) {
-				bundleFinished(status, currentNode, moduleStartTime, "FAIL");
-				status.log(currentNode, isDebug ? ex.stack ?? ex.toString() : ex.toString(), "error");
-			}
-		}
+
+				return buildInWorker({
+					node: currentNode,
+					args,
+					status,
+					registerWorker: (worker) => {
+						workers.push(worker);
+					},
+				});
+			},
+		});
 
 		// watch mode suspend
 		if (isWatching) {
-			await new Promise<void>((resolve) => {
-				let isTearingDown = false;
-				const onTeardown = () => {
-					if (isTearingDown) {
-						return;
-					}
-
-					isTearingDown = true;
-					Promise
-						.allSettled(watchers.map((it) => it.close()))
-						.finally(resolve);
-				};
-
-				[ "SIGTERM", "SIGINT" ].forEach(signal => process.on(signal, onTeardown));
-			});
+			await waitForTeardown(() => [
+				...watchers.map((it) => it.close()),
+				...workers.map(stopWorker),
+			]);
 		}
 	}
 	finally {
 		currentTasks = null;
-		status.close();
+		status?.close();
 
 		const buildTimeTaken = Date.now() - buildStartTime;
 		println();
@@ -221,6 +206,149 @@ export async function build(
 	}
 }
 
+/**
+ * Builds a single module requested by the parent build, reporting to it over the IPC channel.
+ * Watching workers stop once the parent build disconnects.
+ *
+ * @internal
+ */
+export async function runBuildWorker() {
+	const watchers: RollupWatcher[] = [];
+
+	try {
+		const { dir, args } = await receiveRequest();
+		const { targetEnv, isWatching, isDebug } = parseBuildArgs(args);
+
+		const module = await discoverModule(dir);
+		if (!module) {
+			throw new Error(`No module found at path '${dir}'.`);
+		}
+
+		const node = singleNode(module).origin;
+		const status = createWorkerReporter(node);
+		overrideConsole(status);
+
+		await buildModule(node, { targetEnv, isWatching, isDebug, status, watchers });
+
+		if (isWatching) {
+			notifyReady();
+			await waitForTeardown(() => watchers.map((it) => it.close()), true);
+		}
+	}
+	catch (ex: any) {
+		// reported by the parent build as a crashed worker
+		process.stderr.write(`${ex.stack ?? ex}\n`);
+		process.exitCode = 1;
+	}
+	finally {
+		currentTasks = null;
+		await closeWorker();
+	}
+}
+
+/**
+ * Resolves once the build is interrupted, after running the teardown.
+ */
+function waitForTeardown(teardown: () => readonly Promise<unknown>[], isWorker = false) {
+	return new Promise<void>((resolve) => {
+		let isTearingDown = false;
+		const onTeardown = () => {
+			if (isTearingDown) {
+				return;
+			}
+
+			isTearingDown = true;
+			Promise
+				.allSettled(teardown())
+				.finally(resolve);
+		};
+
+		[ "SIGTERM", "SIGINT" ].forEach(signal => process.on(signal, onTeardown));
+
+		// a worker stops once its parent build is gone
+		if (isWorker) {
+			process.on("disconnect", onTeardown);
+		}
+	});
+}
+
+interface ModuleBuildOptions {
+	readonly targetEnv: TargetEnv;
+	readonly isWatching: boolean;
+	readonly isDebug: boolean;
+	readonly status: StatusReporter;
+	readonly watchers: RollupWatcher[];
+}
+
+/**
+ * Builds all targets of a module within the current process. Failures are reported, but do not
+ * prevent dependents from being built.
+ */
+async function buildModule(currentNode: GraphNode, { targetEnv, isWatching, isDebug, status, watchers }: ModuleBuildOptions) {
+	let moduleStartTime = Date.now();
+	const context: BuildContext = {
+		cwd: currentNode.module.baseDir,
+		moduleName: currentNode.module.package.name,
+		targetEnv,
+		isWatching,
+		isDebug,
+	};
+
+	try {
+		// check for a build config
+		const buildConfigPath = join(context.cwd, "build.config.mjs");
+		if (!(await canAccessFile(buildConfigPath))) {
+			status.update(currentNode, { kind: "SKIP" });
+			return;
+		}
+
+		// import the build.config.mjs definition file
+		currentTasks = [];
+		process.chdir(context.cwd);
+
+		const url = pathToFileURL(buildConfigPath).href;
+		await import(url);
+
+		// process queued tasks
+		const targets = (
+			await Promise.all(
+				currentTasks.map(task => task(context)),
+			)
+		)
+			.flat(1);
+
+		// build targets sequentially
+		for (const target of targets) {
+			await (isWatching ? buildAndWatch : buildOnce)({
+				context,
+				status,
+				node: currentNode,
+				outputs: target.outputs,
+				inputOptions: {
+					...target.input,
+					onLog(level, log) {
+						const isSuppressed = log.pluginCode !== undefined && target.suppressions.some(it => it.code === log.pluginCode && (!it.plugin || it.plugin === log.plugin));
+						if (isSuppressed) {
+							return;
+						}
+
+						if (level !== "debug" || isDebug) {
+							status.log(currentNode, `${log.pluginCode ? `[${log.pluginCode}]` : ""}${log.message}`, level);
+						}
+					},
+				},
+				registerWatcher: (watcher) => {
+					watchers.push(watcher);
+				},
+			});
+		}
+	}
+	catch (ex: any) {
+		bundleFinished(status, currentNode, moduleStartTime, "FAIL");
+		status.log(currentNode, isDebug ? ex.stack ?? ex.toString() : ex.toString(), "error");
+	}
+}
+
 interface BuildCall {
 	readonly context: BuildContext;
 	readonly node: GraphNode;
@@ -302,11 +430,14 @@ function singleNode(module: Module): TraversalResult {
 		module,
 		dependencies: [],
 		dependents: [],
+		dependencyEdges: [],
+		dependentEdges: [],
 	};
 
 	return {
 		orderedNodes: [ node ],
 		origin: node,
+		orderedGroups: [ [ node ] ],
 	};
 }
 
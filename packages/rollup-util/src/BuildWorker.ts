@@ -0,0 +1,185 @@
+import { fork, type ChildProcess } from "node:child_process";
+
+import type { GraphNode } from "@calmdownval/workspaces-util";
+
+import type { LogLevel, StatusInfo, StatusReporter } from "./status";
+
+/** @internal */
+export interface WorkerRequest {
+	readonly type: "build";
+
+	/** directory of the module to build */
+	readonly dir: string;
+
+	/** arguments of the parent build, see build */
+	readonly args: readonly string[];
+}
+
+type WorkerMessage =
+	| { readonly type: "update"; readonly status: StatusInfo }
+	| { readonly type: "log"; readonly message: string; readonly level: LogLevel }
+	| { readonly type: "ready" };
+
+let pendingMessages = Promise.resolve();
+
+function send(message: WorkerMessage) {
+	pendingMessages = pendingMessages.then(() => new Promise<void>((resolve) => {
+		if (!process.connected) {
+			resolve();
+			return;
+		}
+
+		process.send!(message, undefined, {}, () => resolve());
+	}));
+}
+
+/**
+ * Resolves to the build request sent by the parent build.
+ *
+ * @internal
+ */
+export function receiveRequest() {
+	return new Promise<WorkerRequest>((resolve) => {
+		process.once("message", resolve);
+	});
+}
+
+/**
+ * Creates a reporter forwarding status updates and logs of the module built by a worker to the
+ * parent build.
+ *
+ * @internal
+ */
+export function createWorkerReporter(root: GraphNode): StatusReporter {
+	return {
+		root,
+		log: (_, message, level = "info") => send({ type: "log", message, level }),
+		update: (_, status) => send({ type: "update", status }),
+		close: () => {},
+	};
+}
+
+/**
+ * Tells the parent build that the first build of a watching worker has finished.
+ *
+ * @internal
+ */
+export function notifyReady() {
+	send({ type: "ready" });
+}
+
+/**
+ * Waits for all messages to be delivered to the parent build, then closes the channel, so that
+ * the worker exits once its remaining output is written.
+ *
+ * @internal
+ */
+export async function closeWorker() {
+	await pendingMessages;
+	if (process.connected) {
+		process.disconnect!();
+	}
+}
+
+/**
+ * Disconnects a watching worker and resolves once it exits.
+ *
+ * @internal
+ */
+export function stopWorker(worker: ChildProcess) {
+	return new Promise<void>((resolve) => {
+		if (worker.exitCode !== null || worker.signalCode !== null) {
+			resolve();
+			return;
+		}
+
+		worker.once("close", () => resolve());
+		if (worker.connected) {
+			worker.disconnect();
+		}
+	});
+}
+
+/** @internal */
+export interface WorkerCall {
+	readonly node: GraphNode;
+	readonly args: readonly string[];
+	readonly status: StatusReporter;
+	readonly registerWorker: (worker: ChildProcess) => void;
+}
+
+/**
+ * Builds a module in a child process, so that each module has its own working directory and
+ * module state. Resolves once the module was built or failed, or once its first build finished in
+ * watch mode. Failures are reported the same way as failures of modules built in-process.
+ *
+ * @internal
+ */
+export function buildInWorker({ node, args, status, registerWorker }: WorkerCall) {
+	return new Promise<void>((resolve) => {
+		const worker = fork(new URL("./worker.mjs", import.meta.url), [], {
+			cwd: node.module.baseDir,
+			stdio: [ "ignore", "pipe", "pipe", "ipc" ],
+		});
+
+		let isFailed = false;
+		registerWorker(worker);
+
+		// output not going through the console, e.g. written by plugins directly
+		const forward = (level: LogLevel) => (data: Buffer) => {
+			data
+				.toString("utf8")
+				.split(/\r?\n/)
+				.filter(line => line.length > 0)
+				.forEach(line => status.log(node, line, level));
+		};
+
+		worker.stdout!.on("data", forward("info"));
+		worker.stderr!.on("data", forward("warn"));
+
+		worker.on("message", (message: WorkerMessage) => {
+			switch (message.type) {
+				case "update":
+					isFailed ||= message.status.kind === "FAIL";
+					status.update(node, message.status);
+					break;
+
+				case "log":
+					status.log(node, message.message, message.level);
+					break;
+
+				case "ready":
+					resolve();
+					break;
+			}
+		});
+
+		worker.on("error", (ex) => {
+			if (!isFailed) {
+				isFailed = true;
+				status.update(node, { kind: "FAIL" });
+			}
+
+			status.log(node, ex.toString(), "error");
+			resolve();
+		});
+
+		worker.on("close", (exitCode, signal) => {
+			// the worker did not get to report the failure itself
+			if ((exitCode !== 0 || signal) && !isFailed) {
+				status.update(node, { kind: "FAIL" });
+				status.log(node, `Build worker ${signal ? `was terminated by ${signal}` : `exited with code ${exitCode}`}.`, "error");
+			}
+
+			resolve();
+		});
+
+		const request: WorkerRequest = {
+			type: "build",
+			dir: node.module.baseDir,
+			args,
+		};
+
+		worker.send(request);
+	});
+}
@@ -0,0 +1,4 @@
+import { runBuildWorker } from "./BuildContext";
+
+// entry of the child processes started by concurrent builds, see buildInWorker
+void runBuildWorker();
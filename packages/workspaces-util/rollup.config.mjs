@@ -27,6 +27,24 @@ export default [
 			}),
 		],
 	},
+	{
+		input: "./src/cli.ts",
+		output: {
+			file: "./dist/cli.mjs",
+			format: "es",
+			sourcemap: true,
+			banner: "#!/usr/bin/env node",
+		},
+		plugins: [
+			pluginNodeExternals(),
+			pluginTypeScript(),
+			pluginTerser({
+				output: {
+					comments: false,
+				},
+			}),
+		],
+	},
 	{
 		input: "./src/index.ts",
 		output: {
@@ -0,0 +1,120 @@
+import { readFile } from "node:fs/promises";
+import { isAbsolute, matchesGlob, relative, sep } from "node:path";
+
+import { createWorkspaceGraph, type DependencyMapKey, type GraphNode, type GraphOptions, type LevelQueryOptions } from "./dependencies";
+import { getMergeBase, listChangedFiles, readFileAtRevision } from "./git";
+import { normalizePattern } from "./glob";
+import { getExternalPackages, LOCKFILE_NAMES, parseLockfile, type Lockfile } from "./lockfile";
+import type { Module, Workspace } from "./types";
+
+export interface AffectedOptions extends GraphOptions, LevelQueryOptions {
+	/** git revision to compare against, e.g. `origin/main` */
+	readonly since: string;
+
+	/**
+	 * Glob patterns relative to the workspace root of files affecting all modules when changed,
+	 * e.g. shared configuration living inside a module directory. Changed files outside of all
+	 * module directories always affect all modules.
+	 *
+	 * Defaults to none.
+	 */
+	readonly globalPaths?: readonly string[];
+
+	/**
+	 * Only follows edges listed in at least one of the given dependency maps when expanding the
+	 * changed modules to their dependents, see QueryOptions.
+	 *
+	 * Defaults to all edges of the graph.
+	 */
+	readonly kinds?: readonly DependencyMapKey[];
+
+	/**
+	 * When the lockfile in the workspace root changes, compares the third-party packages each
+	 * module resolves to before and after the change, and only marks modules whose packages
+	 * differ as changed. Otherwise a changed lockfile affects all modules.
+	 *
+	 * Defaults to false.
+	 */
+	readonly lockfile?: boolean;
+}
+
+/**
+ * Lists workspace modules affected by the changes made since the given git revision, i.e. modules
+ * containing changed files and all modules depending on them. Uncommitted and untracked files
+ * count as changes. Resolves to the modules in topological order.
+ */
+export async function getAffectedModules(options: AffectedOptions): Promise<Module[]> {
+	const { workspace } = options;
+	const rootDir = workspace.root.baseDir;
+	const globalPaths = options.globalPaths?.map(normalizePattern) ?? [];
+	const graph = createWorkspaceGraph(workspace, options);
+
+	// deeper modules first, so that files of nested modules are assigned to the innermost one
+	const owners = [ ...graph.nodes ].sort((a, b) => b.module.baseDir.length - a.module.baseDir.length);
+	const changed = new Set<GraphNode>();
+
+	for (const file of await listChangedFiles(rootDir, options.since)) {
+		if (!isWithin(rootDir, file)) {
+			continue;
+		}
+
+		const path = relative(rootDir, file).split(sep).join("/");
+		const isGlobal = globalPaths.some(it => matchesGlob(path, it));
+		if (options.lockfile && !isGlobal && LOCKFILE_NAMES.includes(path)) {
+			const modules = await getLockfileChanges(workspace, file, options.since);
+			if (modules) {
+				graph.nodes
+					.filter(it => modules.includes(it.module))
+					.forEach(it => changed.add(it));
+
+				continue;
+			}
+		}
+
+		const owner = owners.find(node => isWithin(node.module.baseDir, file));
+		if (!owner || isGlobal) {
+			return graph.levels(undefined, options).flat(1).map(it => it.module);
+		}
+
+		changed.add(owner);
+	}
+
+	const affected = new Set<GraphNode>();
+	for (const node of changed) {
+		graph
+			.dependentsOf(node.module.package.name, { kinds: options.kinds, allowDevCycles: options.allowDevCycles })
+			.orderedNodes
+			.forEach(it => affected.add(graph.getNode(it.module.package.name)));
+	}
+
+	return graph
+		.levels([ ...affected ].map(it => it.module.package.name), options)
+		.flat(1)
+		.map(it => it.module);
+}
+
+/**
+ * Lists modules resolving to different third-party packages at the common ancestor of the
+ * revision and HEAD than in the working tree. Resolves to null when the packages cannot be
+ * compared, e.g. when the lockfile did not exist or was removed.
+ */
+async function getLockfileChanges(workspace: Workspace, file: string, since: string) {
+	const previousText = await readFileAtRevision(file, await getMergeBase(workspace.root.baseDir, since));
+	const currentText = await readFile(file, "utf8").catch(() => null);
+	if (previousText === null || currentText === null) {
+		return null;
+	}
+
+	const previous = parseLockfile(file, previousText);
+	const current = parseLockfile(file, currentText);
+	const describe = (lockfile: Lockfile, module: Module) => getExternalPackages(lockfile, workspace, module)
+		.map(it => `${it.resolution}\0${it.checksum ?? ""}`)
+		.join("\n");
+
+	return workspace.modules.filter(it => describe(previous, it) !== describe(current, it));
+}
+
+function isWithin(dir: string, file: string) {
+	const path = relative(dir, file);
+	return path !== ".." && !path.startsWith(`..${sep}`) && !isAbsolute(path);
+}
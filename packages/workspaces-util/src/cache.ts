@@ -0,0 +1,266 @@
+import { createHash } from "node:crypto";
+import { cp, glob, mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, matchesGlob, relative, sep } from "node:path";
+
+import { isENOENT } from "./common";
+import type { GraphNode, WorkspaceGraph } from "./dependencies";
+import { listFiles } from "./git";
+import { normalizePattern } from "./glob";
+import type { Workspace } from "./types";
+
+export interface TaskCacheOptions {
+	/**
+	 * Directory holding the cache entries.
+	 *
+	 * Defaults to `node_modules/.cache/workspaces-util` within the workspace root, or to
+	 * `.yarn/.cache/workspaces-util` when there is no node_modules directory, e.g. with Yarn
+	 * Plug'n'Play.
+	 */
+	readonly dir?: string;
+
+	/**
+	 * Glob patterns relative to the module directory selecting the input files of the task. Files
+	 * ignored by git and files matched by the outputs are never treated as inputs.
+	 *
+	 * Defaults to all files of the module.
+	 */
+	readonly inputs?: readonly string[];
+
+	/**
+	 * Glob patterns relative to the module directory selecting the files produced by the task,
+	 * which are stored with the entry and restored on a cache hit.
+	 *
+	 * Defaults to none.
+	 */
+	readonly outputs?: readonly string[];
+
+	/** names of environment variables whose values are part of the hash */
+	readonly env?: readonly string[];
+}
+
+/** @internal */
+export interface TaskCache<TResult> {
+	/**
+	 * Computes the hash of a task from the inputs and manifest of the module and of all its direct
+	 * and indirect dependencies, the command and the selected environment variables.
+	 */
+	hashTask(node: GraphNode, command: string, args: readonly string[], env: NodeJS.ProcessEnv): Promise<string>;
+
+	/**
+	 * Restores the outputs of a stored task and resolves to its recorded result, or null if there
+	 * is no entry for the hash.
+	 */
+	restore(node: GraphNode, hash: string): Promise<TResult | null>;
+
+	/**
+	 * Stores the result and the outputs of a task.
+	 */
+	save(node: GraphNode, hash: string, result: TResult): Promise<void>;
+}
+
+interface CacheEntry<TResult> {
+	readonly result: TResult;
+
+	/** paths of the stored output files, relative to the module directory */
+	readonly outputs: readonly string[];
+}
+
+const CACHE_VERSION = "1";
+const ENTRY_FILE = "entry.json";
+const OUTPUTS_DIR = "outputs";
+
+/** @internal */
+export function createTaskCache<TResult>(graph: WorkspaceGraph, options: TaskCacheOptions): TaskCache<TResult> {
+	const inputs = options.inputs?.map(normalizePattern);
+	const outputs = options.outputs?.map(normalizePattern) ?? [];
+	const moduleDirs = collectModuleDirs(graph.workspace);
+	const contentHashes = new Map<GraphNode, Promise<string>>();
+	let cacheDir: Promise<string> | undefined;
+
+	const getCacheDir = () => cacheDir ??= resolveCacheDir(graph.workspace, options);
+	const hashContent = (node: GraphNode) => {
+		let hash = contentHashes.get(node);
+		if (!hash) {
+			hash = computeContentHash(node, inputs, outputs, moduleDirs);
+			contentHashes.set(node, hash);
+		}
+
+		return hash;
+	};
+
+	return {
+		hashTask: async (node, command, args, env) => {
+			const hash = createHash("sha256")
+				.update(CACHE_VERSION)
+				.update("\0")
+				.update(await hashContent(node));
+
+			for (const dependency of collectDependencies(node)) {
+				hash.update(`\0${dependency.module.package.name}@${await hashContent(dependency)}`);
+			}
+
+			hash.update(`\0${JSON.stringify([ command, ...args ])}`);
+
+			for (const name of [ ...options.env ?? [] ].sort()) {
+				hash.update(`\0${name}=${env[name] ?? ""}`);
+			}
+
+			return hash.digest("hex");
+		},
+
+		restore: async ({ module }, hash) => {
+			const entryDir = join(await getCacheDir(), hash);
+
+			let entry;
+			try {
+				entry = JSON.parse(await readFile(join(entryDir, ENTRY_FILE), "utf8")) as CacheEntry<TResult>;
+			}
+			catch (ex) {
+				if (isENOENT(ex)) {
+					return null;
+				}
+
+				throw ex as Error;
+			}
+
+			for (const path of entry.outputs) {
+				const target = join(module.baseDir, path);
+				await mkdir(dirname(target), { recursive: true });
+				await cp(join(entryDir, OUTPUTS_DIR, path), target);
+			}
+
+			return entry.result;
+		},
+
+		save: async ({ module }, hash, result) => {
+			const entryDir = join(await getCacheDir(), hash);
+			const tempDir = `${entryDir}.${process.pid}.${Date.now().toString(36)}.tmp`;
+			const stored: string[] = [];
+
+			try {
+				if (outputs.length > 0) {
+					for await (const dirent of glob(outputs, { cwd: module.baseDir, withFileTypes: true })) {
+						if (!dirent.isFile()) {
+							continue;
+						}
+
+						const path = toPosixPath(relative(module.baseDir, join(dirent.parentPath, dirent.name)));
+						const target = join(tempDir, OUTPUTS_DIR, path);
+						await mkdir(dirname(target), { recursive: true });
+						await cp(join(module.baseDir, path), target);
+						stored.push(path);
+					}
+				}
+
+				const entry: CacheEntry<TResult> = {
+					result,
+					outputs: stored,
+				};
+
+				await mkdir(tempDir, { recursive: true });
+				await writeFile(join(tempDir, ENTRY_FILE), JSON.stringify(entry), "utf8");
+
+				// another process may have stored the same entry in the meantime
+				await rm(entryDir, { recursive: true, force: true });
+				await rename(tempDir, entryDir);
+			}
+			catch (ex) {
+				await rm(tempDir, { recursive: true, force: true });
+				throw ex as Error;
+			}
+		},
+	};
+}
+
+async function resolveCacheDir(workspace: Workspace, options: TaskCacheOptions) {
+	if (options.dir) {
+		return options.dir;
+	}
+
+	const rootDir = workspace.root.baseDir;
+	const hasNodeModules = await stat(join(rootDir, "./node_modules")).then(it => it.isDirectory(), () => false);
+	return join(rootDir, hasNodeModules ? "./node_modules/.cache/workspaces-util" : "./.yarn/.cache/workspaces-util");
+}
+
+/**
+ * Lists directories of all modules of the workspace and of workspaces nested within it.
+ */
+function collectModuleDirs(workspace: Workspace): string[] {
+	return [
+		...workspace.modules.map(it => it.baseDir),
+		...(workspace.nested ?? []).flatMap(it => [ it.root.baseDir, ...collectModuleDirs(it) ]),
+	];
+}
+
+/**
+ * Hashes the manifest and the input files of a single module. Files of modules nested within the
+ * module directory belong to those modules and are left out.
+ */
+async function computeContentHash({ module }: GraphNode, inputs: readonly string[] | undefined, outputs: readonly string[], moduleDirs: readonly string[]) {
+	const hash = createHash("sha256")
+		.update(JSON.stringify(module.package));
+
+	// only set when the workspace was discovered with the lockfile option
+	for (const external of module.externals ?? []) {
+		hash.update(`\0${external.resolution}\0${external.checksum ?? ""}`);
+	}
+
+	const nestedDirs = moduleDirs
+		.map(dir => toPosixPath(relative(module.baseDir, dir)))
+		.filter(dir => dir.length > 0 && !dir.startsWith("../") && dir !== ".." && !isAbsolute(dir))
+		.map(dir => `${dir}/`);
+
+	const paths = (await listFiles(module.baseDir))
+		.map(toPosixPath)
+		.filter(path => (
+			(!inputs || inputs.some(it => matchesGlob(path, it))) &&
+			!outputs.some(it => matchesGlob(path, it)) &&
+			!nestedDirs.some(dir => path.startsWith(dir))
+		))
+		.sort();
+
+	let content;
+	for (const path of paths) {
+		try {
+			content = await readFile(join(module.baseDir, path));
+		}
+		catch (ex) {
+			// files deleted from the working tree are still listed by git
+			if (isENOENT(ex)) {
+				continue;
+			}
+
+			throw ex as Error;
+		}
+
+		hash
+			.update(`\0${path}\0`)
+			.update(createHash("sha256").update(content).digest("hex"));
+	}
+
+	return hash.digest("hex");
+}
+
+/**
+ * Lists all direct and indirect dependencies of a node sorted by name. Tolerates cycles.
+ */
+function collectDependencies(origin: GraphNode) {
+	const visited = new Set([ origin ]);
+	const queue = [ origin ];
+	for (let index = 0; index < queue.length; index += 1) {
+		for (const node of queue[index].dependencies) {
+			if (!visited.has(node)) {
+				visited.add(node);
+				queue.push(node);
+			}
+		}
+	}
+
+	return queue
+		.slice(1)
+		.sort((a, b) => a.module.package.name.localeCompare(b.module.package.name));
+}
+
+function toPosixPath(path: string) {
+	return path.split(sep).join("/");
+}
@@ -0,0 +1,128 @@
+import { join } from "node:path";
+
+import type { DependencyMapKey } from "./dependencies";
+import { isRange, satisfies } from "./semver";
+import type { Module, Workspace } from "./types";
+
+export interface WorkspaceDiagnostic {
+	readonly severity: DiagnosticSeverity;
+	readonly code: DiagnosticCode;
+	readonly message: string;
+
+	/** absolute path of the file containing the problem */
+	readonly path: string;
+
+	/** the module the problem was found in */
+	readonly module: Module;
+}
+
+export type DiagnosticSeverity =
+	| "error"
+	| "warning";
+
+export type DiagnosticCode =
+	| "missing-name"
+	| "missing-version"
+	| "duplicate-name"
+	| "unknown-workspace-dependency"
+	| "unsatisfied-workspace-range"
+	| "self-dependency";
+
+const CHECKED_DEPENDENCY_MAPS: DependencyMapKey[] = [
+	"dependencies",
+	"devDependencies",
+	"peerDependencies",
+	"optionalDependencies",
+];
+
+/**
+ * Checks the workspace for common configuration mistakes, such as modules without a name or
+ * version, duplicate module names, or `workspace:` specifiers that cannot be satisfied. Returns a
+ * list of found problems, which is empty for a healthy workspace.
+ */
+export function checkWorkspace(workspace: Workspace): WorkspaceDiagnostic[] {
+	const diagnostics: WorkspaceDiagnostic[] = [];
+	const report = (module: Module, severity: DiagnosticSeverity, code: DiagnosticCode, message: string) => {
+		diagnostics.push({
+			severity,
+			code,
+			message,
+			path: join(module.baseDir, "./package.json"),
+			module,
+		});
+	};
+
+	// index modules by name
+	const modulesByName = new Map<string, Module[]>();
+	for (const module of workspace.modules) {
+		const { name, version } = module.package;
+		if (typeof name !== "string" || name.length === 0) {
+			report(module, "error", "missing-name", `Module at '${module.baseDir}' does not declare a package name.`);
+			continue;
+		}
+
+		if (typeof version !== "string" || version.length === 0) {
+			report(module, "error", "missing-version", `Module '${name}' does not declare a version.`);
+		}
+
+		const list = modulesByName.get(name);
+		if (list) {
+			list.push(module);
+		}
+		else {
+			modulesByName.set(name, [ module ]);
+		}
+	}
+
+	modulesByName.forEach((list, name) => {
+		if (list.length > 1) {
+			const others = list.map(it => `'${it.baseDir}'`).join(", ");
+			list.forEach(module => {
+				report(module, "error", "duplicate-name", `Package name '${name}' is used by multiple modules: ${others}.`);
+			});
+		}
+	});
+
+	// validate workspace: specifiers of all modules including the root
+	let dependencyMap;
+	let specifier;
+	let range;
+	let dependency;
+
+	for (const module of [ workspace.root, ...workspace.modules ]) {
+		for (const mapKey of CHECKED_DEPENDENCY_MAPS) {
+			if (!(dependencyMap = module.package[mapKey])) {
+				continue;
+			}
+
+			for (const name in dependencyMap) {
+				specifier = dependencyMap[name];
+				if (!specifier?.startsWith("workspace:")) {
+					continue;
+				}
+
+				if (name === module.package.name) {
+					report(module, "error", "self-dependency", `Module '${name}' lists itself in '${mapKey}'.`);
+					continue;
+				}
+
+				if (!(dependency = modulesByName.get(name)?.[0])) {
+					report(module, "error", "unknown-workspace-dependency", `Module '${module.package.name}' depends on '${name}' via '${specifier}' in '${mapKey}', but no such module exists in the workspace.`);
+					continue;
+				}
+
+				// workspace:*, workspace:^ and workspace:~ accept any local version
+				range = specifier.slice("workspace:".length);
+				if (/^[*^~]?$/.test(range) || !isRange(range) || !dependency.package.version) {
+					continue;
+				}
+
+				if (!satisfies(dependency.package.version, range)) {
+					report(module, "warning", "unsatisfied-workspace-range", `Module '${module.package.name}' requires '${name}@${range}' in '${mapKey}', but the workspace version is '${dependency.package.version}'.`);
+				}
+			}
+		}
+	}
+
+	return diagnostics;
+}
@@ -0,0 +1,283 @@
+import { constants } from "node:os";
+import { relative, sep } from "node:path";
+import { parseArgs } from "node:util";
+
+import { createWorkspaceGraph, getDependencies, getDependents } from "./dependencies";
+import { discoverWorkspace } from "./discovery";
+import { filterModules } from "./filter";
+import { getInterruptSignal } from "./processes";
+import {
+	print,
+	println,
+	runWorkspaceCommand,
+	runWorkspaceScript,
+	type CommandError,
+	type CommandResult,
+	type OutputMode,
+} from "./runner";
+import { scheduleTasks, type FailureMode, type TaskStatus } from "./scheduler";
+import { toDot, toGraphJson, toMermaid } from "./serialize";
+import type { Module, Workspace } from "./types";
+
+interface CliOptions {
+	readonly json: boolean;
+	readonly filters: readonly string[];
+	readonly concurrency: number;
+	readonly failureMode: FailureMode;
+	readonly output: OutputMode;
+	readonly format: string;
+}
+
+interface CliResult {
+	readonly module: Module;
+	readonly status: TaskStatus | "missing";
+	readonly result?: CommandResult;
+}
+
+const USAGE = `Usage: workspaces-util <command> [options]
+
+Commands:
+  list                     lists workspace modules in topological order
+  deps <name>              lists modules the module depends on
+  dependents <name>        lists modules depending on the module
+  graph [name]             prints the dependency graph, or the dependencies of a module
+  run <script> [args]      runs a package.json script in each module defining it
+  exec <command> [args]    runs a command in each module
+
+Options:
+  --cwd <path>             directory to discover the workspace from
+  --json                   prints machine readable output
+  -F, --filter <filter>    selects modules, can be repeated, e.g. 'pkg...' or './packages/*'
+  -c, --concurrency <n>    maximum number of commands running at the same time
+  --continue               keeps running commands in other modules after a failure
+  --output <mode>          output of commands: inherit, prefix or buffer
+  --format <format>        format of the graph: dot, mermaid or json
+  -h, --help               prints this message
+
+Use '--' to pass options to the script or command.`;
+
+const OUTPUT_MODES = [ "inherit", "prefix", "buffer" ];
+
+async function main(argv: readonly string[]) {
+	const { values, positionals } = parseArgs({
+		args: [ ...argv ],
+		allowPositionals: true,
+		options: {
+			"cwd": { type: "string" },
+			"json": { type: "boolean", default: false },
+			"filter": { type: "string", short: "F", multiple: true, default: [] },
+			"concurrency": { type: "string", short: "c", default: "1" },
+			"continue": { type: "boolean", default: false },
+			"output": { type: "string", default: "inherit" },
+			"format": { type: "string", default: "dot" },
+			"help": { type: "boolean", short: "h", default: false },
+		},
+	});
+
+	const [ command, ...args ] = positionals;
+	if (values.help || !command) {
+		println(USAGE);
+		return values.help ? 0 : 1;
+	}
+
+	if (!OUTPUT_MODES.includes(values.output)) {
+		throw new Error(`Unknown output mode '${values.output}'.`);
+	}
+
+	const concurrency = Number(values.concurrency);
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new Error(`Invalid concurrency '${values.concurrency}', expected a positive integer.`);
+	}
+
+	const workspace = await discoverWorkspace({ cwd: values.cwd });
+	if (!workspace) {
+		throw new Error("No workspace could be found.");
+	}
+
+	const options: CliOptions = {
+		json: values.json,
+		filters: values.filter,
+		concurrency,
+		failureMode: values.continue ? "continue" : "bail",
+		output: values.output as OutputMode,
+		format: values.json ? "json" : values.format,
+	};
+
+	switch (command) {
+		case "list":
+			printModules(workspace, selectModules(workspace, options), options);
+			return 0;
+
+		case "deps":
+		case "dependents": {
+			const query = command === "deps" ? getDependencies : getDependents;
+			const result = query({
+				workspace,
+				moduleName: requireArgument(args, "name"),
+				includeSelf: false,
+			});
+
+			printModules(workspace, result.orderedNodes.map(it => it.module), options);
+			return 0;
+		}
+
+		case "graph":
+			printGraph(workspace, args[0], options);
+			return 0;
+
+		case "run":
+			return runScript(workspace, requireArgument(args, "script"), args.slice(1), options);
+
+		case "exec":
+			return execCommand(workspace, requireArgument(args, "command"), args.slice(1), options);
+
+		default:
+			throw new Error(`Unknown command '${command}', see 'workspaces-util --help'.`);
+	}
+}
+
+function requireArgument(args: readonly string[], name: string) {
+	if (!args[0]) {
+		throw new Error(`Missing argument <${name}>.`);
+	}
+
+	return args[0];
+}
+
+function selectModules(workspace: Workspace, options: CliOptions) {
+	return filterModules({
+		workspace,
+		filters: options.filters,
+	});
+}
+
+/**
+ * Selects the modules to run in, failing when filters were given but match no module, so that a
+ * mistyped filter does not pass silently.
+ */
+function requireModules(workspace: Workspace, options: CliOptions) {
+	const modules = selectModules(workspace, options);
+	if (modules.length === 0 && options.filters.length > 0) {
+		throw new Error(`No modules match the filters ${options.filters.map(it => `'${it}'`).join(", ")}.`);
+	}
+
+	return modules;
+}
+
+function printModules(workspace: Workspace, modules: readonly Module[], options: CliOptions) {
+	const entries = modules.map(({ baseDir, package: { name, version } }) => ({
+		name,
+		version: version ?? null,
+		path: relative(workspace.root.baseDir, baseDir).split(sep).join("/"),
+	}));
+
+	if (options.json) {
+		println(JSON.stringify(entries, null, 2));
+		return;
+	}
+
+	entries.forEach(it => println(`${it.name}${it.version ? `@${it.version}` : ""}  ${it.path}`));
+}
+
+function printGraph(workspace: Workspace, moduleName: string | undefined, options: CliOptions) {
+	const source = moduleName
+		? getDependencies({ workspace, moduleName })
+		: createWorkspaceGraph(workspace);
+
+	switch (options.format) {
+		case "dot":
+			print(toDot(source));
+			break;
+
+		case "mermaid":
+			print(toMermaid(source));
+			break;
+
+		case "json":
+			println(JSON.stringify(toGraphJson(source), null, 2));
+			break;
+
+		default:
+			throw new Error(`Unknown graph format '${options.format}'.`);
+	}
+}
+
+async function runScript(workspace: Workspace, script: string, args: readonly string[], options: CliOptions) {
+	requireModules(workspace, options);
+	const interruption = getInterruptSignal();
+	const results = await runWorkspaceScript({
+		workspace,
+		script,
+		args,
+		selection: options.filters.length > 0 ? options.filters : undefined,
+		concurrency: options.concurrency,
+		failureMode: options.failureMode,
+		output: options.json ? "capture" : options.output,
+	});
+
+	return getExitCode(printResults(results, options), interruption);
+}
+
+async function execCommand(workspace: Workspace, command: string, args: readonly string[], options: CliOptions) {
+	const graph = createWorkspaceGraph(workspace);
+	const modules = requireModules(workspace, options);
+	const interruption = getInterruptSignal();
+	const results = await scheduleTasks({
+		nodes: modules.map(it => graph.getNode(it.package.name)),
+		concurrency: options.concurrency,
+		failureMode: options.failureMode,
+		signal: interruption,
+		task: ({ module }) => runWorkspaceCommand({
+			workspace,
+			moduleName: module.package.name,
+			command,
+			args,
+			output: options.json ? "capture" : options.output,
+		}),
+	});
+
+	const code = printResults(results.map(({ node, status, value, error }) => ({
+		module: node.module,
+		status,
+		result: value ?? (error as CommandError | undefined)?.result,
+	})), options);
+
+	return getExitCode(code, interruption);
+}
+
+/**
+ * Exits the way a shell reports termination by a signal when the commands were interrupted by one
+ * of the signals forwarded to them.
+ */
+function getExitCode(code: number, interruption: AbortSignal) {
+	const signal = interruption.aborted ? constants.signals[interruption.reason as NodeJS.Signals] : undefined;
+	return signal ? 128 + signal : code;
+}
+
+function printResults(results: readonly CliResult[], options: CliOptions) {
+	const failed = results.filter(it => it.status === "fail");
+	if (options.json) {
+		println(JSON.stringify(results.map(({ module, status, result }) => ({
+			name: module.package.name,
+			status,
+			exitCode: result?.exitCode ?? null,
+			timeMs: result?.timeMs ?? null,
+			stdout: result?.stdout ?? null,
+			stderr: result?.stderr ?? null,
+		})), null, 2));
+	}
+	else if (failed.length > 0) {
+		println(`Failed in ${failed.map(it => it.module.package.name).join(", ")}.`);
+	}
+
+	return failed.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+	.then(code => {
+		process.exitCode = code;
+	})
+	.catch((ex: Error) => {
+		process.stderr.write(`${ex.message}\n`);
+		process.exitCode = 1;
+	});
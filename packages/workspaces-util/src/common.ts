@@ -1,3 +1,5 @@
+import { chmod, rename, rm, stat, writeFile } from "node:fs/promises";
+
 export interface NodeError extends Error {
 	readonly code?: string;
 }
@@ -5,3 +7,32 @@ export interface NodeError extends Error {
 export function isENOENT(ex: unknown): ex is NodeError {
 	return (ex as NodeError | null)?.code === "ENOENT";
 }
+
+/**
+ * Writes a file by first writing a temporary file next to it and then renaming it over the
+ * original, so that readers never observe a partially written file. The mode of an existing file
+ * is preserved.
+ */
+export async function writeFileAtomic(path: string, data: string) {
+	const tempPath = `${path}.${process.pid}.${Date.now().toString(36)}.tmp`;
+	try {
+		const mode = await stat(path).then(it => it.mode, (ex: unknown) => {
+			if (!isENOENT(ex)) {
+				throw ex as Error;
+			}
+
+			return null;
+		});
+
+		await writeFile(tempPath, data, "utf8");
+		if (mode !== null) {
+			await chmod(tempPath, mode);
+		}
+
+		await rename(tempPath, path);
+	}
+	catch (ex) {
+		await rm(tempPath, { force: true });
+		throw ex as Error;
+	}
+}
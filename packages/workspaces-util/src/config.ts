@@ -0,0 +1,152 @@
+import { glob, readFile } from "node:fs/promises";
+import { join, sep } from "node:path";
+
+import { isENOENT } from "./common";
+import { createGlobMatcher, normalizePattern } from "./glob";
+import type { Module, WorkspaceLayout } from "./types";
+
+export interface WorkspaceConfig {
+	readonly layout: WorkspaceLayout;
+	readonly patterns: string[];
+}
+
+/**
+ * Reads the module patterns declared by a workspace root, either in its pnpm-workspace.yaml file
+ * or in the `workspaces` field of its manifest. Resolves to null if the module declares none.
+ */
+export async function readWorkspaceConfig(root: Module): Promise<WorkspaceConfig | null> {
+	const path = join(root.baseDir, "./pnpm-workspace.yaml");
+	let yaml;
+	try {
+		yaml = await readFile(path, "utf8");
+	}
+	catch (ex) {
+		if (!isENOENT(ex)) {
+			throw ex as Error;
+		}
+	}
+
+	if (yaml !== undefined) {
+		return {
+			layout: "pnpm",
+			patterns: parsePnpmPackages(yaml),
+		};
+	}
+
+	const { workspaces } = root.package;
+	if (Array.isArray(workspaces)) {
+		return {
+			layout: "npm",
+			patterns: workspaces,
+		};
+	}
+
+	if (workspaces && typeof workspaces === "object") {
+		return {
+			layout: "yarn",
+			patterns: workspaces.packages ?? [],
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Extracts the `packages` list out of a pnpm-workspace.yaml file. Only the subset of YAML pnpm
+ * documents for this key is supported, i.e. a block sequence or a flow sequence of scalars.
+ */
+function parsePnpmPackages(yaml: string): string[] {
+	const lines = yaml.split(/\r?\n/);
+	const count = lines.length;
+	const patterns: string[] = [];
+
+	let index = 0;
+	let line;
+	let match;
+
+	for (; index < count; index += 1) {
+		if ((match = /^packages\s*:(.*)$/.exec(stripYamlComment(lines[index])))) {
+			break;
+		}
+	}
+
+	if (!match) {
+		return patterns;
+	}
+
+	let inline = match[1].trim();
+	if (inline.startsWith("[")) {
+		// flow sequences may span multiple lines
+		while (!inline.endsWith("]")) {
+			index += 1;
+			if (index >= count) {
+				throw new Error("Unterminated 'packages' sequence in pnpm-workspace.yaml.");
+			}
+
+			inline += ` ${stripYamlComment(lines[index]).trim()}`;
+		}
+
+		return inline
+			.replace(/^\[|\]$/g, "")
+			.split(",")
+			.map(unquoteYamlScalar)
+			.filter(Boolean);
+	}
+
+	for (index += 1; index < count; index += 1) {
+		line = stripYamlComment(lines[index]);
+		if (/^\s*$/.test(line)) {
+			continue;
+		}
+
+		// items may be indented or not, anything else ends the sequence
+		if (!(match = /^\s*-(?:\s+(.*))?$/.exec(line))) {
+			break;
+		}
+
+		patterns.push(unquoteYamlScalar(match[1] ?? ""));
+	}
+
+	return patterns.filter(Boolean);
+}
+
+function stripYamlComment(line: string) {
+	return line.replace(/(^|\s)#.*$/, "").trimEnd();
+}
+
+function unquoteYamlScalar(value: string) {
+	return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Expands workspace glob patterns into absolute module directory paths. Patterns prefixed with
+ * an exclamation mark exclude any path matched by other patterns.
+ */
+export async function resolveModulePaths(cwd: string, patterns: readonly string[]): Promise<string[]> {
+	const include: string[] = [];
+	const exclude: ((path: string) => boolean)[] = [];
+	for (const pattern of patterns) {
+		if (pattern.startsWith("!")) {
+			exclude.push(createGlobMatcher(pattern.slice(1)));
+		}
+		else {
+			include.push(normalizePattern(pattern));
+		}
+	}
+
+	const globOptions = { cwd };
+	const found = new Set<string>();
+	const paths: string[] = [];
+	for (const pattern of include) {
+		for await (const path of glob(pattern, globOptions)) {
+			if (found.has(path) || exclude.some(matches => matches(path.split(sep).join("/")))) {
+				continue;
+			}
+
+			found.add(path);
+			paths.push(join(cwd, path));
+		}
+	}
+
+	return paths;
+}
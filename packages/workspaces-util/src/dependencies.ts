@@ -1,14 +1,82 @@
+import { resolve } from "node:path";
+
+import { satisfies } from "./semver";
 import type { Module, Workspace } from "./types";
 
-export interface GraphOptions {
-	readonly workspace: Workspace;
+export interface WorkspaceGraphOptions {
 	readonly dependencyMaps?: readonly DependencyMapKey[];
+
+	/** names of modules whose dependencies are ignored, the modules remain part of the graph */
 	readonly exclude?: readonly string[];
+
+	/**
+	 * Controls which dependency specifiers link modules together:
+	 * - `workspace` - only specifiers using the `workspace:` protocol
+	 * - `local` - additionally `link:`, `file:` and `portal:` specifiers pointing to the directory
+	 *   of a module, and version ranges satisfied by the version of a module
+	 *
+	 * Defaults to `workspace`.
+	 */
+	readonly resolution?: ResolutionMode;
 }
 
-export interface TraversalOptions extends GraphOptions {
-	readonly moduleName: string;
+export type ResolutionMode =
+	| "workspace"
+	| "local";
+
+export type EdgeResolution =
+	| "workspace"
+	| "link"
+	| "file"
+	| "portal"
+	| "semver";
+
+export interface GraphOptions extends WorkspaceGraphOptions {
+	readonly workspace: Workspace;
+}
+
+export interface QueryOptions {
 	readonly includeSelf?: boolean;
+
+	/**
+	 * Tolerates dependency cycles consisting solely of devDependencies. Modules of such a cycle
+	 * are collapsed into one group of the result instead of failing the traversal.
+	 *
+	 * Defaults to false.
+	 */
+	readonly allowDevCycles?: boolean;
+
+	/**
+	 * Only follows edges listed in at least one of the given dependency maps, e.g. passing
+	 * `[ "dependencies" ]` limits the query to production dependencies.
+	 *
+	 * Defaults to all edges of the graph.
+	 */
+	readonly kinds?: readonly DependencyMapKey[];
+}
+
+export interface TraversalOptions extends GraphOptions, QueryOptions {
+	readonly moduleName: string;
+}
+
+export interface LevelQueryOptions {
+	/**
+	 * Tolerates dependency cycles consisting solely of devDependencies. Edges between modules of
+	 * such a cycle are ignored, so that the modules are ordered by their other dependencies.
+	 *
+	 * Defaults to false.
+	 */
+	readonly allowDevCycles?: boolean;
+}
+
+export interface LevelOptions extends GraphOptions, LevelQueryOptions {
+	/**
+	 * Limits the result to the listed modules. Orderings implied by indirect dependencies through
+	 * modules outside of the selection are still honoured.
+	 *
+	 * Defaults to all modules of the graph.
+	 */
+	readonly moduleNames?: readonly string[];
 }
 
 export interface DependencyTraversal {
@@ -18,22 +86,130 @@ export interface DependencyTraversal {
 export interface TraversalResult {
 	orderedNodes: GraphNode[];
 	origin: GraphNode;
+
+	/**
+	 * The ordered nodes split into groups. Each group holds either a single node, or all nodes of
+	 * a tolerated cycle, which have to be processed together.
+	 */
+	orderedGroups: GraphNode[][];
 }
 
 export interface GraphNode {
-	module: Module;
+	readonly module: Module;
 
 	/** list of modules this module depends on */
-	dependencies: GraphNode[];
+	readonly dependencies: readonly GraphNode[];
 
 	/** list of modules that depend on this module */
-	dependents: GraphNode[];
+	readonly dependents: readonly GraphNode[];
 
-	/** @internal */
-	visited?: boolean;
+	/** list of edges leading to modules this module depends on */
+	readonly dependencyEdges: readonly GraphEdge[];
+
+	/** list of edges leading from modules that depend on this module */
+	readonly dependentEdges: readonly GraphEdge[];
+}
+
+/**
+ * An edge pointing from a dependent module to its dependency.
+ */
+export interface GraphEdge {
+	readonly from: GraphNode;
+	readonly to: GraphNode;
+
+	/** dependency maps listing the dependency */
+	readonly kinds: readonly DependencyMapKey[];
+
+	/** raw version specifiers as found in each of the dependency maps, e.g. `workspace:^` */
+	readonly specifiers: { readonly [K in DependencyMapKey]?: string };
+
+	/** how each of the specifiers was matched to the local module */
+	readonly resolutions: { readonly [K in DependencyMapKey]?: EdgeResolution };
+}
+
+export interface DependencyCycle {
+	/** all modules of a strongly connected component of the graph */
+	readonly nodes: readonly GraphNode[];
+
+	/** all edges between the modules of the component */
+	readonly edges: readonly GraphEdge[];
+
+	/** one of the cycles passing through the component, starting and ending at the same node */
+	readonly path: readonly GraphNode[];
+
+	/** whether all edges of the component come solely from devDependencies */
+	readonly isDevOnly: boolean;
+}
+
+export interface WorkspaceGraph {
+	readonly workspace: Workspace;
+
+	/** all nodes of the graph in the order of workspace discovery */
+	readonly nodes: readonly GraphNode[];
 
 	/** @internal */
-	visiting?: boolean;
+	readonly nodeMap: ReadonlyMap<string, GraphNode>;
+
+	/**
+	 * Gets a graph node by module name, or null if not found.
+	 */
+	getNodeOrNull(moduleName: string): GraphNode | null;
+
+	/**
+	 * Gets a graph node by module name; Throws if not found.
+	 */
+	getNode(moduleName: string): GraphNode;
+
+	/**
+	 * Builds an ordered list of modules that are either direct or indirect dependency of the
+	 * queried module. Resulting nodes only link to other nodes within the result.
+	 */
+	dependenciesOf(moduleName: string, options?: QueryOptions): TraversalResult;
+
+	/**
+	 * Builds an ordered list of modules that either directly or indirectly depend on the queried
+	 * module. Resulting nodes only link to other nodes within the result.
+	 */
+	dependentsOf(moduleName: string, options?: QueryOptions): TraversalResult;
+
+	/**
+	 * Lists nodes no other module depends on.
+	 */
+	roots(): GraphNode[];
+
+	/**
+	 * Lists nodes that do not depend on any other module.
+	 */
+	leaves(): GraphNode[];
+
+	/**
+	 * Finds the shortest chain of dependencies leading from one module to another, including both
+	 * ends. Returns null if the first module does not depend on the other.
+	 */
+	path(fromModuleName: string, toModuleName: string): GraphNode[] | null;
+
+	/**
+	 * Sorts modules topologically into levels. Modules of a level only depend on modules of the
+	 * preceding levels and can therefore be processed concurrently. Listing module names limits
+	 * the result to a selection.
+	 */
+	levels(moduleNames?: readonly string[], options?: LevelQueryOptions): GraphNode[][];
+
+	/**
+	 * Lists all dependency cycles of the graph, one per strongly connected component.
+	 */
+	cycles(): DependencyCycle[];
+
+	/**
+	 * Creates a new graph consisting only of the listed modules and the edges between them.
+	 */
+	subgraph(moduleNames: readonly string[]): WorkspaceGraph;
+
+	/**
+	 * Creates a new graph without the edges of dependency cycles consisting solely of
+	 * devDependencies, so that the remaining modules can be sorted topologically.
+	 */
+	withoutDevCycles(): WorkspaceGraph;
 }
 
 export type DependencyMapKey =
@@ -48,134 +224,496 @@ const DEFAULT_DEPENDENCY_MAPS: DependencyMapKey[] = [
 	"peerDependencies",
 ];
 
-type Graph = { [TModuleName in string]?: GraphNode };
+interface MutableNode {
+	module: Module;
+	dependencies: GraphNode[];
+	dependents: GraphNode[];
+	dependencyEdges: GraphEdge[];
+	dependentEdges: GraphEdge[];
+}
+
+interface MutableEdge {
+	from: GraphNode;
+	to: GraphNode;
+	kinds: DependencyMapKey[];
+	specifiers: { [K in DependencyMapKey]?: string };
+	resolutions: { [K in DependencyMapKey]?: EdgeResolution };
+}
+
+/**
+ * Builds an immutable dependency graph of workspace modules. The graph can be queried repeatedly
+ * without being rebuilt.
+ */
+export function createWorkspaceGraph(workspace: Workspace, options?: WorkspaceGraphOptions): WorkspaceGraph {
+	const excluded = options?.exclude?.reduce<{ [K in string]?: true }>((map, name) => {
+		map[name] = true;
+		return map;
+	}, {}) ?? {};
 
-function buildGraph(workspace: Workspace, options?: GraphOptions): Graph {
 	const { modules } = workspace;
 	const moduleCount = modules.length;
-	const graph: Graph = {};
+	const nodes: MutableNode[] = [];
 
 	let moduleIndex = 0;
 	let module;
 
 	for (; moduleIndex < moduleCount; moduleIndex += 1) {
 		module = modules[moduleIndex];
-		graph[module.package.name] = {
-			module,
-			dependencies: [],
-			dependents: [],
-		};
+		nodes.push(createNode(module));
 	}
 
 	const mapKeys = options?.dependencyMaps ?? DEFAULT_DEPENDENCY_MAPS;
 	const mapCount = mapKeys.length;
-	const excluded = options?.exclude?.reduce<{ [K in string]?: true }>((map, name) => {
-		map[name] = true;
-		return map;
-	}, {}) ?? {};
+	const mode = options?.resolution ?? "workspace";
 
 	let mapIndex;
 	let moduleSubIndex;
 	let dependencyMap: { readonly [K in string]?: string } | undefined;
-	let upstream: GraphNode;
-	let downstream: GraphNode | undefined;
+	let specifier;
+	let resolution;
+	let upstream: MutableNode;
+	let downstream: MutableNode;
+	let edge: MutableEdge | undefined;
 
 	for (moduleIndex = 0; moduleIndex < moduleCount; moduleIndex += 1) {
-		module = modules[moduleIndex];
-		if (excluded[module.package.name] === true) {
+		upstream = nodes[moduleIndex];
+		if (excluded[upstream.module.package.name] === true) {
 			continue;
 		}
 
-		upstream = graph[module.package.name]!;
 		for (mapIndex = 0; mapIndex < mapCount; mapIndex += 1) {
-			if (!(dependencyMap = module.package[mapKeys[mapIndex]])) {
+			if (!(dependencyMap = upstream.module.package[mapKeys[mapIndex]])) {
 				continue;
 			}
 
 			for (moduleSubIndex = 0; moduleSubIndex < moduleCount; moduleSubIndex += 1) {
-				downstream = graph[modules[moduleSubIndex].package.name]!;
+				downstream = nodes[moduleSubIndex];
+				specifier = dependencyMap[downstream.module.package.name];
 				if (excluded[downstream.module.package.name] === true ||
-					dependencyMap[downstream.module.package.name]?.startsWith("workspace:") !== true
-				) {
+					specifier === undefined || !(resolution = resolveSpecifier(specifier, upstream.module, downstream.module, mode))) {
 					continue;
 				}
 
-				upstream.dependencies.push(downstream);
-				downstream.dependents.push(upstream);
+				// modules listed in multiple maps share a single edge
+				edge = upstream.dependencyEdges.find(it => it.to === downstream) as MutableEdge | undefined;
+				if (!edge) {
+					edge = {
+						from: upstream,
+						to: downstream,
+						kinds: [],
+						specifiers: {},
+						resolutions: {},
+					};
+
+					link(edge);
+				}
+
+				edge.kinds.push(mapKeys[mapIndex]);
+				edge.specifiers[mapKeys[mapIndex]] = specifier;
+				edge.resolutions[mapKeys[mapIndex]] = resolution;
 			}
 		}
 	}
 
+	return sealGraph(workspace, nodes);
+}
+
+function resolveSpecifier(specifier: string, dependent: Module, dependency: Module, mode: ResolutionMode): EdgeResolution | null {
+	if (specifier.startsWith("workspace:")) {
+		return "workspace";
+	}
+
+	if (mode !== "local") {
+		return null;
+	}
+
+	const match = /^(link|file|portal):(.*)$/.exec(specifier);
+	if (match) {
+		return resolve(dependent.baseDir, match[2]) === resolve(dependency.baseDir)
+			? match[1] as EdgeResolution
+			: null;
+	}
+
+	return dependency.package.version && satisfies(dependency.package.version, specifier)
+		? "semver"
+		: null;
+}
+
+function createNode(module: Module): MutableNode {
+	return {
+		module,
+		dependencies: [],
+		dependents: [],
+		dependencyEdges: [],
+		dependentEdges: [],
+	};
+}
+
+function link(edge: GraphEdge) {
+	const from = edge.from as MutableNode;
+	const to = edge.to as MutableNode;
+
+	from.dependencies.push(to);
+	from.dependencyEdges.push(edge);
+	to.dependents.push(from);
+	to.dependentEdges.push(edge);
+}
+
+function sealGraph(workspace: Workspace, nodes: MutableNode[]): WorkspaceGraph {
+	const nodeMap = new Map<string, GraphNode>();
+	nodes.forEach(node => {
+		node.dependencyEdges.forEach(edge => {
+			Object.freeze(edge.kinds);
+			Object.freeze(edge.specifiers);
+			Object.freeze(edge.resolutions);
+			Object.freeze(edge);
+		});
+
+		Object.freeze(node.dependencies);
+		Object.freeze(node.dependents);
+		Object.freeze(node.dependencyEdges);
+		Object.freeze(node.dependentEdges);
+		nodeMap.set(node.module.package.name, Object.freeze(node));
+	});
+
+	// methods are closures, so that they keep working when destructured off the graph
+	const graph: WorkspaceGraph = Object.freeze<WorkspaceGraph>({
+		workspace,
+		nodes: Object.freeze(nodes),
+		nodeMap,
+		getNodeOrNull: moduleName => onGetNodeOrNull(graph, moduleName),
+		getNode: moduleName => onGetNode(graph, moduleName),
+		dependenciesOf: (moduleName, options) => onDependenciesOf(graph, moduleName, options),
+		dependentsOf: (moduleName, options) => onDependentsOf(graph, moduleName, options),
+		roots: () => onRoots(graph),
+		leaves: () => onLeaves(graph),
+		path: (fromModuleName, toModuleName) => onPath(graph, fromModuleName, toModuleName),
+		levels: (moduleNames, options) => onLevels(graph, moduleNames, options),
+		cycles: () => onCycles(graph),
+		subgraph: moduleNames => onSubgraph(graph, moduleNames),
+		withoutDevCycles: () => onWithoutDevCycles(graph),
+	});
+
 	return graph;
 }
 
-function createTraversal(isUpwards: boolean): DependencyTraversal {
-	return options => {
-		const graph = buildGraph(options.workspace, options);
-		const origin = graph[options.moduleName];
-		if (!origin) {
-			throw new Error(`No module '${options.moduleName}' could be found in the workspace.`);
+function onGetNodeOrNull(graph: WorkspaceGraph, moduleName: string): GraphNode | null {
+	return graph.nodeMap.get(moduleName) ?? null;
+}
+
+function onGetNode(graph: WorkspaceGraph, moduleName: string): GraphNode {
+	const node = graph.nodeMap.get(moduleName);
+	if (!node) {
+		throw new Error(`No module '${moduleName}' could be found in the workspace.`);
+	}
+
+	return node;
+}
+
+function onDependenciesOf(graph: WorkspaceGraph, moduleName: string, options?: QueryOptions): TraversalResult {
+	return traverse(graph, graph.getNode(moduleName), /* isUpwards = */ false, options);
+}
+
+function onDependentsOf(graph: WorkspaceGraph, moduleName: string, options?: QueryOptions): TraversalResult {
+	return traverse(graph, graph.getNode(moduleName), /* isUpwards = */ true, options);
+}
+
+function onRoots(graph: WorkspaceGraph): GraphNode[] {
+	return graph.nodes.filter(node => node.dependents.length === 0);
+}
+
+function onLeaves(graph: WorkspaceGraph): GraphNode[] {
+	return graph.nodes.filter(node => node.dependencies.length === 0);
+}
+
+function onPath(graph: WorkspaceGraph, fromModuleName: string, toModuleName: string): GraphNode[] | null {
+	const from = graph.getNode(fromModuleName);
+	const to = graph.getNode(toModuleName);
+
+	// breadth-first search, remembering where each node was reached from
+	const reachedFrom = new Map<GraphNode, GraphNode | null>([ [ from, null ] ]);
+	const queue = [ from ];
+
+	let index = 0;
+	let node: GraphNode | null | undefined;
+
+	for (; index < queue.length; index += 1) {
+		node = queue[index];
+		if (node === to) {
+			const path: GraphNode[] = [];
+			for (; node; node = reachedFrom.get(node)) {
+				path.push(node);
+			}
+
+			return path.reverse();
+		}
+
+		for (const dependency of node.dependencies) {
+			if (!reachedFrom.has(dependency)) {
+				reachedFrom.set(dependency, node);
+				queue.push(dependency);
+			}
+		}
+	}
+
+	return null;
+}
+
+function onLevels(graph: WorkspaceGraph, moduleNames?: readonly string[], options?: LevelQueryOptions): GraphNode[][] {
+	if (options?.allowDevCycles) {
+		return graph
+			.withoutDevCycles()
+			.levels(moduleNames)
+			.map(level => level.map(node => graph.getNode(node.module.package.name)));
+	}
+
+	const selected = new Set(moduleNames ? moduleNames.map(name => graph.getNode(name)) : graph.nodes);
+
+	// longest path layering yields the least number of levels
+	const depthBelow = new Map<GraphNode, number>();
+	const stack: GraphNode[] = [];
+	const measure = (node: GraphNode) => {
+		let depth = depthBelow.get(node);
+		if (depth !== undefined) {
+			return depth;
+		}
+
+		const stackIndex = stack.indexOf(node);
+		if (stackIndex !== -1) {
+			const cycleInfo = stack
+				.slice(stackIndex)
+				.map(it => it.module.package.name)
+				.join(" -> ");
+
+			throw new Error(`Dependency cycle found: [-> ${cycleInfo} ->]`);
 		}
 
-		const affected = new WeakSet<GraphNode>();
-		const orderedNodes: GraphNode[] = [];
-		let cycleStart: GraphNode | null = null;
-		let cycleInfo = "";
+		stack.push(node);
+		depth = -1;
 
-		const visit = (node: GraphNode) => {
-			if (node.visited) {
-				return true;
+		for (const dependency of node.dependencies) {
+			depth = Math.max(depth, measure(dependency) + (selected.has(dependency) ? 1 : 0));
+		}
+
+		stack.pop();
+		depthBelow.set(node, depth);
+		return depth;
+	};
+
+	const levels: GraphNode[][] = [];
+	for (const node of graph.nodes) {
+		if (selected.has(node)) {
+			(levels[measure(node) + 1] ??= []).push(node);
+		}
+	}
+
+	return levels;
+}
+
+function onCycles(graph: WorkspaceGraph): DependencyCycle[] {
+	return findComponents(graph.nodes, /* isUpwards = */ false, includeAll)
+		.filter(component => isCycle(component, includeAll))
+		.map(component => describeCycle(graph, component, includeAll))
+		.sort((a, b) => graph.nodes.indexOf(a.nodes[0]) - graph.nodes.indexOf(b.nodes[0]));
+}
+
+function onSubgraph(graph: WorkspaceGraph, moduleNames: readonly string[]): WorkspaceGraph {
+	const included = new Set(moduleNames.map(name => graph.getNode(name)));
+	return subgraphOf(graph, graph.nodes.filter(node => included.has(node)));
+}
+
+function onWithoutDevCycles(graph: WorkspaceGraph): WorkspaceGraph {
+	const devEdges = new Set(graph.cycles().filter(it => it.isDevOnly).flatMap(it => it.edges));
+	return subgraphOf(graph, graph.nodes, edge => !devEdges.has(edge));
+}
+
+function subgraphOf(graph: WorkspaceGraph, selection: readonly GraphNode[], filter: EdgeFilter = includeAll): WorkspaceGraph {
+	const copies = new Map<GraphNode, MutableNode>();
+	selection.forEach(node => {
+		copies.set(node, createNode(node.module));
+	});
+
+	let to;
+	copies.forEach((from, node) => {
+		for (const edge of node.dependencyEdges) {
+			if (filter(edge) && (to = copies.get(edge.to))) {
+				link({
+					from,
+					to,
+					kinds: [ ...edge.kinds ],
+					specifiers: { ...edge.specifiers },
+					resolutions: { ...edge.resolutions },
+				});
 			}
+		}
+	});
+
+	return sealGraph(graph.workspace, [ ...copies.values() ]);
+}
+
+type EdgeFilter = (edge: GraphEdge) => boolean;
+
+function includeAll() {
+	return true;
+}
+
+function createEdgeFilter(kinds?: readonly DependencyMapKey[]): EdgeFilter {
+	return kinds
+		? edge => edge.kinds.some(kind => kinds.includes(kind))
+		: includeAll;
+}
 
-			if (node.visiting) {
-				cycleStart = node;
-				cycleInfo = node.module.package.name;
-				return false;
+/**
+ * Finds strongly connected components reachable from the given nodes using Tarjan's algorithm.
+ * Components are listed in the order they finish, i.e. each component follows all components it
+ * leads to.
+ */
+function findComponents(nodes: readonly GraphNode[], isUpwards: boolean, filter: EdgeFilter): GraphNode[][] {
+	const indices = new Map<GraphNode, number>();
+	const lowLinks = new Map<GraphNode, number>();
+	const stack: GraphNode[] = [];
+	const onStack = new Set<GraphNode>();
+	const components: GraphNode[][] = [];
+
+	const connect = (node: GraphNode) => {
+		indices.set(node, indices.size);
+		lowLinks.set(node, indices.size - 1);
+		stack.push(node);
+		onStack.add(node);
+
+		let relative;
+		for (const edge of isUpwards ? node.dependentEdges : node.dependencyEdges) {
+			if (!filter(edge)) {
+				continue;
+			}
+
+			relative = isUpwards ? edge.from : edge.to;
+			if (!indices.has(relative)) {
+				connect(relative);
+				lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(relative)!));
+			}
+			else if (onStack.has(relative)) {
+				lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(relative)!));
 			}
+		}
 
-			node.visiting = true;
+		if (lowLinks.get(node) === indices.get(node)) {
+			const component: GraphNode[] = [];
+			let member;
+			do {
+				member = stack.pop()!;
+				onStack.delete(member);
+				component.push(member);
+			}
+			while (member !== node);
 
-			const relatives = isUpwards ? node.dependents : node.dependencies;
-			let index = 0;
-			for (; index < relatives.length; index += 1) {
-				if (!visit(relatives[index])) {
-					if (cycleStart === node) {
-						throw new Error(`Dependency cycle found: [-> ${cycleInfo} ->]`);
-					}
+			components.push(component);
+		}
+	};
 
-					cycleInfo += ` -> ${node.module.package.name}`;
-					return false;
+	for (const node of nodes) {
+		if (!indices.has(node)) {
+			connect(node);
+		}
+	}
+
+	return components;
+}
+
+function isCycle(component: readonly GraphNode[], filter: EdgeFilter) {
+	return component.length > 1 || component[0].dependencyEdges.some(edge => edge.to === component[0] && filter(edge));
+}
+
+function describeCycle(graph: WorkspaceGraph, component: readonly GraphNode[], filter: EdgeFilter): DependencyCycle {
+	const members = new Set(component);
+	const nodes = graph.nodes.filter(node => members.has(node));
+	const edges = nodes.flatMap(node => node.dependencyEdges.filter(edge => members.has(edge.to) && filter(edge)));
+
+	// breadth-first search for the shortest way back to the first node
+	const start = nodes[0];
+	const reachedFrom = new Map<GraphNode, GraphNode>();
+	const queue = [ start ];
+	let index = 0;
+	let node: GraphNode | undefined;
+
+	search: for (; index < queue.length; index += 1) {
+		for (const edge of queue[index].dependencyEdges) {
+			if (edges.includes(edge) && !reachedFrom.has(edge.to)) {
+				reachedFrom.set(edge.to, queue[index]);
+				if (edge.to === start) {
+					break search;
 				}
+
+				queue.push(edge.to);
 			}
+		}
+	}
 
-			node.visiting = false;
-			node.visited = true;
+	const path = [ start ];
+	for (node = reachedFrom.get(start); node !== start; node = reachedFrom.get(node!)) {
+		path.push(node!);
+	}
 
-			if (node !== origin || options.includeSelf !== false) {
-				orderedNodes.push(node);
-				affected.add(node);
-			}
+	path.push(start);
 
-			return true;
-		};
+	return {
+		nodes,
+		edges,
+		path: path.reverse(),
+		isDevOnly: edges.every(edge => edge.kinds.every(kind => kind === "devDependencies")),
+	};
+}
 
-		visit(origin);
+function formatCycle(cycle: DependencyCycle) {
+	return cycle.path
+		.slice(0, -1)
+		.map(node => node.module.package.name)
+		.join(" -> ");
+}
 
-		// filter the results to the requested scope
-		const isAffected = (node: GraphNode) => affected.has(node);
-		orderedNodes.forEach(node => {
-			node.dependencies = node.dependencies.filter(isAffected);
-			node.dependents = node.dependents.filter(isAffected);
-		});
+function traverse(graph: WorkspaceGraph, origin: GraphNode, isUpwards: boolean, options?: QueryOptions): TraversalResult {
+	const filter = createEdgeFilter(options?.kinds);
+	const groups: GraphNode[][] = [];
+	for (const component of findComponents([ origin ], isUpwards, filter)) {
+		if (!isCycle(component, filter)) {
+			groups.push(component);
+			continue;
+		}
 
-		if (isUpwards) {
-			orderedNodes.reverse();
+		const cycle = describeCycle(graph, component, filter);
+		if (options?.allowDevCycles !== true || !cycle.isDevOnly) {
+			throw new Error(`Dependency cycle found: [-> ${formatCycle(cycle)} ->]`);
 		}
 
-		return {
-			orderedNodes,
-			origin,
-		};
+		groups.push([ ...cycle.nodes ]);
+	}
+
+	// scope the results to a subgraph of the affected nodes
+	const affected = new Set(groups.flat(1));
+	const scope = subgraphOf(graph, graph.nodes.filter(node => affected.has(node)), filter);
+	const orderedGroups = groups
+		.map(group => group
+			.filter(node => node !== origin || options?.includeSelf !== false)
+			.map(node => scope.getNode(node.module.package.name)))
+		.filter(group => group.length > 0);
+
+	if (isUpwards) {
+		orderedGroups.reverse();
+	}
+
+	return {
+		orderedNodes: orderedGroups.flat(1),
+		origin: scope.getNode(origin.module.package.name),
+		orderedGroups,
+	};
+}
+
+function createTraversal(isUpwards: boolean): DependencyTraversal {
+	return options => {
+		const graph = createWorkspaceGraph(options.workspace, options);
+		return isUpwards
+			? graph.dependentsOf(options.moduleName, options)
+			: graph.dependenciesOf(options.moduleName, options);
 	};
 }
 
@@ -190,3 +728,19 @@ export const getDependencies = createTraversal(/* isUpwards = */ false);
  * indirectly depend on the queried workspace.
  */
 export const getDependents = createTraversal(/* isUpwards = */ true);
+
+/**
+ * Sorts workspace modules topologically into levels of modules that can be processed
+ * concurrently. Each level only depends on the levels before it.
+ */
+export function getTopologicalLevels(options: LevelOptions): GraphNode[][] {
+	return createWorkspaceGraph(options.workspace, options).levels(options.moduleNames, options);
+}
+
+/**
+ * Lists all dependency cycles within the workspace, one per strongly connected component of the
+ * dependency graph.
+ */
+export function findDependencyCycles(options: GraphOptions): DependencyCycle[] {
+	return createWorkspaceGraph(options.workspace, options).cycles();
+}
@@ -1,10 +1,23 @@
-import { glob, readFile } from "node:fs/promises";
+import { readFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
 
 import { isENOENT } from "./common";
+import { readWorkspaceConfig, resolveModulePaths, type WorkspaceConfig } from "./config";
+import { resolveExternalPackages } from "./lockfile";
 import type { Module, Workspace } from "./types";
+import { createValidationError, validateManifest } from "./validation";
 
-export interface DiscoverOptions {
+export interface ModuleDiscoverOptions {
+	/**
+	 * Validates the fields of discovered 'package.json' files. Malformed fields cause
+	 * a ManifestValidationError listing the JSON paths of all issues found.
+	 *
+	 * Defaults to false.
+	 */
+	readonly validate?: boolean;
+}
+
+export interface DiscoverOptions extends ModuleDiscoverOptions {
 	/**
 	 * The directory where the discovery begins.
 	 *
@@ -18,11 +31,41 @@ export interface DiscoverOptions {
 	 * Defaults to 5.
 	 */
 	readonly maxDepth?: number;
+
+	/**
+	 * Continues walking up past the first workspace root found, up to the outermost one within
+	 * `maxDepth`, and loads all nested workspaces.
+	 *
+	 * Defaults to false.
+	 */
+	readonly nested?: boolean;
+
+	/**
+	 * Reads the lockfile of the workspace and attaches the resolved third-party packages to each
+	 * module as `externals`. Supports yarn.lock of Yarn 2 and later and package-lock.json of npm 7
+	 * and later.
+	 *
+	 * Defaults to false.
+	 */
+	readonly lockfile?: boolean;
+}
+
+export interface ModuleLookupOptions {
+	/**
+	 * Searches the whole hierarchy of nested workspaces, starting with the workspace itself and
+	 * continuing with the closest related workspaces.
+	 *
+	 * Defaults to false.
+	 */
+	readonly nested?: boolean;
 }
 
 /**
  * Attempts to discover the workspace containing the current working directory. Resolves to the
  * discovered Workspace, or null if no workspace can be found.
+ *
+ * With the `nested` option, resolves to the outermost workspace instead. Nested workspaces are
+ * linked to it through the `nested` and `parent` properties.
  */
 export async function discoverWorkspace(options?: DiscoverOptions): Promise<Workspace | null> {
 	const maxDepth = Math.max(1, options?.maxDepth ?? 5);
@@ -30,11 +73,26 @@ export async function discoverWorkspace(options?: DiscoverOptions): Promise<Work
 	let cwd = options?.cwd ? resolve(options.cwd) : process.cwd();
 	let depth = 1;
 	let root;
+	let config: WorkspaceConfig | null = null;
+	let workspace: Workspace | null = null;
+	let inner: Workspace | null = null;
+	const known = new Map<string, Workspace>();
 
 	while (depth <= maxDepth) {
-		root = await discoverModule(cwd);
-		if (root?.package.workspaces) {
-			break;
+		root = await discoverModule(cwd, options);
+		if (root && (config = await readWorkspaceConfig(root))) {
+			workspace = await loadWorkspace(root, config, options, known);
+			if (!options?.nested) {
+				break;
+			}
+
+			// the inner workspace may not be matched by the patterns of the outer one
+			if (inner && !inner.parent) {
+				inner.parent = workspace;
+				workspace.nested!.push(inner);
+			}
+
+			inner = workspace;
 		}
 
 		const parent = join(cwd, "..");
@@ -46,36 +104,64 @@ export async function discoverWorkspace(options?: DiscoverOptions): Promise<Work
 		depth += 1;
 	}
 
-	if (!root?.package.workspaces) {
-		return null;
-	}
-
-	const globOptions = { cwd };
-	const paths: string[] = [];
-	for (const pattern of root.package.workspaces) {
-		for await (const path of glob(pattern, globOptions)) {
-			paths.push(join(cwd, path));
-		}
-	}
+	return workspace;
+}
 
+/**
+ * Resolves the modules of a workspace. With the `nested` option, modules declaring workspaces of
+ * their own are loaded as nested workspaces recursively.
+ */
+async function loadWorkspace(root: Module, config: WorkspaceConfig, options: DiscoverOptions | undefined, known: Map<string, Workspace>) {
+	const paths = await resolveModulePaths(root.baseDir, config.patterns);
 	const modules = (
 		await Promise.all(
-			paths.map(discoverModule)
+			paths.map(path => discoverModule(path, options))
 		)
 	)
 		.filter(Boolean) as Module[];
 
-	return {
+	const workspace: Workspace = {
 		root,
 		modules,
+		layout: config.layout,
+		patterns: config.patterns,
 	};
+
+	// resolved before nested workspaces, so that their own lockfiles take precedence
+	if (options?.lockfile) {
+		await resolveExternalPackages(workspace);
+	}
+
+	if (!options?.nested) {
+		return workspace;
+	}
+
+	workspace.nested = [];
+	known.set(root.baseDir, workspace);
+
+	let nestedConfig;
+	let nested;
+
+	for (const module of modules) {
+		if (!(nestedConfig = await readWorkspaceConfig(module))) {
+			continue;
+		}
+
+		nested = known.get(module.baseDir) ?? await loadWorkspace(module, nestedConfig, options, known);
+		if (!nested.parent) {
+			nested.parent = workspace;
+			workspace.nested.push(nested);
+		}
+	}
+
+	return workspace;
 }
 
 /**
  * Attempts to read a 'package.json' file within the specified directory and resolves gathered
  * information into a Module object.
  */
-export async function discoverModule(dir: string): Promise<Module | null> {
+export async function discoverModule(dir: string, options?: ModuleDiscoverOptions): Promise<Module | null> {
 	const path = join(dir, "./package.json");
 	let json;
 	try {
@@ -90,35 +176,68 @@ export async function discoverModule(dir: string): Promise<Module | null> {
 		throw ex as Error;
 	}
 
+	let manifest;
 	try {
-		return {
-			baseDir: dir,
-			package: JSON.parse(json),
-		};
+		manifest = JSON.parse(json);
 	}
 	catch (ex) {
 		throw new Error(`Could not parse 'package.json' file at '${path}'.`, {
 			cause: ex,
 		});
 	}
+
+	if (options?.validate) {
+		const issues = validateManifest(manifest);
+		if (issues.length > 0) {
+			throw createValidationError(path, issues);
+		}
+	}
+
+	return {
+		baseDir: dir,
+		package: manifest,
+	};
 }
 
 /**
  * Gets a workspace module by name, or null if not found.
  */
-export function getModuleOrNull(workspace: Workspace, moduleName: string): Module | null {
-	if (workspace.root.package.name === moduleName) {
-		return workspace.root;
+export function getModuleOrNull(workspace: Workspace, moduleName: string, options?: ModuleLookupOptions): Module | null {
+	const queue = [ workspace ];
+	const visited = new Set(queue);
+	let current;
+	let module;
+
+	for (let index = 0; index < queue.length; index += 1) {
+		current = queue[index];
+		if (current.root.package.name === moduleName) {
+			return current.root;
+		}
+
+		if ((module = current.modules.find(it => it.package.name === moduleName))) {
+			return module;
+		}
+
+		if (!options?.nested) {
+			break;
+		}
+
+		for (const related of [ ...current.nested ?? [], current.parent ]) {
+			if (related && !visited.has(related)) {
+				visited.add(related);
+				queue.push(related);
+			}
+		}
 	}
 
-	return workspace.modules.find(it => it.package.name === moduleName) ?? null;
+	return null;
 }
 
 /**
  * Gets a workspace module by name; Throws if not found.
  */
-export function getModule(workspace: Workspace, moduleName: string): Module {
-	const module = getModuleOrNull(workspace, moduleName);
+export function getModule(workspace: Workspace, moduleName: string, options?: ModuleLookupOptions): Module {
+	const module = getModuleOrNull(workspace, moduleName, options);
 	if (!module) {
 		throw new Error(`No module '${moduleName}' could be found in the workspace.`);
 	}
@@ -0,0 +1,190 @@
+import type { DependencyMapKey } from "./dependencies";
+import { updateModuleManifest } from "./manifest";
+import { compareVersions, parseVersion } from "./semver";
+import type { Module, Workspace } from "./types";
+
+export interface VersionDriftOptions {
+	readonly workspace: Workspace;
+
+	/**
+	 * Dependency maps to scan. Peer dependencies are left out by default as their ranges are
+	 * usually intentionally broader.
+	 *
+	 * Defaults to dependencies, devDependencies and optionalDependencies.
+	 */
+	readonly dependencyMaps?: readonly DependencyMapKey[];
+
+	/**
+	 * Intentional differences to ignore, keyed by the external package name. Use `true` to ignore
+	 * the package completely, or list names of modules whose ranges of the package are ignored.
+	 */
+	readonly allow?: { readonly [TPackageName in string]?: true | readonly string[] };
+
+	/**
+	 * Canonical ranges keyed by the external package name. Every usage of a package with an entry
+	 * is expected to use its range, even if all modules agree on another one. Packages without an
+	 * entry use the most frequently used range, preferring the one with the highest version on a
+	 * tie.
+	 */
+	readonly canonical?: { readonly [TPackageName in string]?: string };
+}
+
+export type VersionDriftFixOptions = VersionDriftOptions;
+
+export interface VersionDrift {
+	/** name of the external package */
+	readonly name: string;
+
+	/** distinct ranges in use, the most frequently used first */
+	readonly ranges: readonly string[];
+
+	/** every place the package is listed in */
+	readonly usages: readonly DependencyUsage[];
+}
+
+export interface DependencyUsage {
+	readonly module: Module;
+	readonly dependencyMap: DependencyMapKey;
+	readonly range: string;
+}
+
+const DEFAULT_DEPENDENCY_MAPS: DependencyMapKey[] = [
+	"dependencies",
+	"devDependencies",
+	"optionalDependencies",
+];
+
+/**
+ * Scans all workspace modules, including the root, for external packages whose ranges differ
+ * between modules or dependency maps, or from their canonical range.
+ */
+export function getVersionDrift(options: VersionDriftOptions): VersionDrift[] {
+	const { workspace, allow = {}, canonical = {} } = options;
+	const mapKeys = options.dependencyMaps ?? DEFAULT_DEPENDENCY_MAPS;
+	const modules = [ workspace.root, ...workspace.modules ];
+	const localNames = new Set(modules.map(it => it.package.name));
+	const usagesByName = new Map<string, DependencyUsage[]>();
+
+	let dependencyMap;
+	let range;
+	let allowed;
+
+	for (const module of modules) {
+		for (const mapKey of mapKeys) {
+			if (!(dependencyMap = module.package[mapKey])) {
+				continue;
+			}
+
+			for (const name in dependencyMap) {
+				range = dependencyMap[name];
+				allowed = allow[name];
+				if (range === undefined ||
+					localNames.has(name) ||
+					allowed === true ||
+					allowed?.includes(module.package.name)
+				) {
+					continue;
+				}
+
+				const usage = {
+					module,
+					dependencyMap: mapKey,
+					range,
+				};
+
+				const list = usagesByName.get(name);
+				if (list) {
+					list.push(usage);
+				}
+				else {
+					usagesByName.set(name, [ usage ]);
+				}
+			}
+		}
+	}
+
+	const report: VersionDrift[] = [];
+	usagesByName.forEach((usages, name) => {
+		const ranges = rankRanges(usages);
+		const expected = canonical[name];
+		if (ranges.length > 1 || (expected !== undefined && ranges[0] !== expected)) {
+			report.push({
+				name,
+				ranges,
+				usages,
+			});
+		}
+	});
+
+	return report.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Rewrites module manifests so that each drifting external package uses a single canonical
+ * range. Resolves to the list of modules that were modified.
+ */
+export async function fixVersionDrift(options: VersionDriftFixOptions): Promise<Module[]> {
+	const changes = new Map<Module, RangeChange[]>();
+
+	let range;
+	for (const drift of getVersionDrift(options)) {
+		range = options.canonical?.[drift.name] ?? drift.ranges[0];
+		for (const usage of drift.usages) {
+			if (usage.range === range) {
+				continue;
+			}
+
+			const change = {
+				name: drift.name,
+				dependencyMap: usage.dependencyMap,
+				range,
+			};
+
+			const list = changes.get(usage.module);
+			if (list) {
+				list.push(change);
+			}
+			else {
+				changes.set(usage.module, [ change ]);
+			}
+		}
+	}
+
+	for (const [ module, list ] of changes) {
+		await updateModuleManifest(module, manifest => {
+			for (const change of list) {
+				manifest[change.dependencyMap]![change.name] = change.range;
+			}
+		});
+	}
+
+	return [ ...changes.keys() ];
+}
+
+interface RangeChange {
+	readonly name: string;
+	readonly dependencyMap: DependencyMapKey;
+	readonly range: string;
+}
+
+function rankRanges(usages: readonly DependencyUsage[]) {
+	const counts = new Map<string, number>();
+	usages.forEach(({ range }) => {
+		counts.set(range, (counts.get(range) ?? 0) + 1);
+	});
+
+	return [ ...counts.keys() ].sort((a, b) => (
+		counts.get(b)! - counts.get(a)! ||
+		compareLowerBounds(b, a)
+	));
+}
+
+function compareLowerBounds(a: string, b: string) {
+	const x = parseVersion(a.replace(/^[\^~>=<\s]+/, ""));
+	const y = parseVersion(b.replace(/^[\^~>=<\s]+/, ""));
+	if (!x || !y) {
+		return x ? 1 : y ? -1 : 0;
+	}
+
+	return compareVersions(x, y);
+}
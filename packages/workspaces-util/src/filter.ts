@@ -0,0 +1,32 @@
+import { createWorkspaceGraph, type GraphOptions, type LevelQueryOptions } from "./dependencies";
+import { selectNodes } from "./selection";
+import type { Module } from "./types";
+
+export interface FilterOptions extends GraphOptions, LevelQueryOptions {
+	/**
+	 * Filter expressions selecting modules, similar to the `--filter` option of pnpm:
+	 * - `name`, `@scope/*` - modules by name, `*` matches any sequence of characters
+	 * - `./packages/ui/**` - modules by directory, relative to the workspace root
+	 * - `name...` - the module and all of its dependencies, `name^...` only the dependencies
+	 * - `...name` - the module and all of its dependents, `...^name` only the dependents
+	 * - `!expression` - excludes the modules matched by the expression
+	 *
+	 * A module is selected when matched by any of the expressions and none of the exclusions.
+	 * Listing exclusions only selects all modules except the excluded ones.
+	 */
+	readonly filters: readonly string[];
+}
+
+/**
+ * Resolves filter expressions to a set of workspace modules, ordered topologically so that each
+ * module comes after the modules it depends on.
+ */
+export function filterModules(options: FilterOptions): Module[] {
+	const graph = createWorkspaceGraph(options.workspace, options);
+	const selected = selectNodes(graph, options.filters);
+
+	return graph
+		.levels(selected.map(it => it.module.package.name), options)
+		.flat(1)
+		.map(it => it.module);
+}
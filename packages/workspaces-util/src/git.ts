@@ -0,0 +1,91 @@
+import { execFile } from "node:child_process";
+import { basename, dirname, join } from "node:path";
+
+interface GitError extends Error {
+	readonly stderr: string;
+}
+
+function git(cwd: string, args: readonly string[]) {
+	return new Promise<string>((resolve, reject) => {
+		execFile("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (ex, stdout, stderr) => {
+			if (ex) {
+				reject(Object.assign(ex, { stderr }) satisfies GitError);
+				return;
+			}
+
+			resolve(stdout);
+		});
+	});
+}
+
+function splitEntries(stdout: string) {
+	return stdout.split("\0").filter(it => it.length > 0);
+}
+
+/**
+ * Lists absolute paths of files changed since the common ancestor of the revision and HEAD,
+ * including uncommitted and untracked files.
+ *
+ * @internal
+ */
+export async function listChangedFiles(cwd: string, since: string): Promise<string[]> {
+	const gitRoot = (await git(cwd, [ "rev-parse", "--show-toplevel" ])).trim();
+	const mergeBase = await getMergeBase(cwd, since);
+	const changed = splitEntries(await git(gitRoot, [ "diff", "--name-only", "--no-renames", "-z", mergeBase ]));
+	const untracked = splitEntries(await git(gitRoot, [ "ls-files", "--others", "--exclude-standard", "-z" ]));
+
+	return [ ...new Set([ ...changed, ...untracked ]) ].map(it => join(gitRoot, it));
+}
+
+/**
+ * Lists paths of all files within the directory that are not ignored by git, relative to the
+ * directory. Includes untracked files and files deleted from the working tree.
+ *
+ * @internal
+ */
+export async function listFiles(cwd: string): Promise<string[]> {
+	try {
+		return splitEntries(await git(cwd, [ "ls-files", "--cached", "--others", "--exclude-standard", "-z" ]));
+	}
+	catch (ex) {
+		throw new Error(`Could not list files of '${cwd}', the directory must be within a git repository.`, {
+			cause: ex,
+		});
+	}
+}
+
+/**
+ * Finds the common ancestor of the revision and HEAD.
+ *
+ * @internal
+ */
+export async function getMergeBase(cwd: string, since: string): Promise<string> {
+	try {
+		return (await git(cwd, [ "merge-base", since, "HEAD" ])).trim();
+	}
+	catch (ex) {
+		throw new Error(`Could not find a common ancestor of '${since}' and HEAD in '${cwd}'.`, {
+			cause: ex,
+		});
+	}
+}
+
+/**
+ * Reads the contents of a file at the given revision. Resolves to null if the file did not exist
+ * at that revision.
+ *
+ * @internal
+ */
+export async function readFileAtRevision(file: string, revision: string): Promise<string | null> {
+	try {
+		return await git(dirname(file), [ "show", `${revision}:./${basename(file)}` ]);
+	}
+	catch (ex) {
+		// e.g. "path 'x' does not exist in 'HEAD'" or "path 'x' exists on disk, but not in 'HEAD'"
+		if (/^fatal: path '.*' (?:does not exist in|exists on disk, but not in) '/m.test((ex as GitError).stderr ?? "")) {
+			return null;
+		}
+
+		throw ex as Error;
+	}
+}
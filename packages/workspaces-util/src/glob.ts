@@ -0,0 +1,21 @@
+import { matchesGlob } from "node:path";
+
+/**
+ * Strips a leading './' and trailing slashes off a glob pattern relative to a directory.
+ */
+export function normalizePattern(pattern: string) {
+	return pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+/**
+ * Creates a function testing forward-slash separated relative paths against a glob pattern. A
+ * trailing globstar also matches the directory itself.
+ */
+export function createGlobMatcher(pattern: string) {
+	const patterns = [ normalizePattern(pattern) || "." ];
+	if (patterns[0].endsWith("/**")) {
+		patterns.push(patterns[0].slice(0, -3));
+	}
+
+	return (path: string) => patterns.some(it => matchesGlob(path, it));
+}
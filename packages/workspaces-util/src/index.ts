@@ -1,5 +1,34 @@
-export * from "./dependencies";
-export * from "./discovery";
-export * from "./runner";
+export { getAffectedModules } from "./affected";
+export { checkWorkspace } from "./check";
+export { createWorkspaceGraph, findDependencyCycles, getDependencies, getDependents, getTopologicalLevels } from "./dependencies";
+export { discoverModule, discoverWorkspace, getModule, getModuleOrNull } from "./discovery";
+export { fixVersionDrift, getVersionDrift } from "./drift";
+export { filterModules } from "./filter";
+export { getExternalPackages, parseLockfile, readLockfile, resolveExternalPackages } from "./lockfile";
+export { updateModuleManifest } from "./manifest";
+export { getProjectReferenceDrift, syncProjectReferences } from "./references";
+export { applyReleasePlan, planRelease } from "./release";
+export { print, println, runCommand, runWorkspaceCommand, runWorkspaceScript } from "./runner";
+export { scheduleTasks } from "./scheduler";
+export { toDot, toGraphJson, toMermaid } from "./serialize";
+export { validateManifest } from "./validation";
+export { watchWorkspace } from "./watch";
 
+export type * from "./affected";
+export type { TaskCacheOptions } from "./cache";
+export type * from "./check";
+export type * from "./dependencies";
+export type * from "./discovery";
+export type * from "./drift";
+export type * from "./filter";
+export type * from "./lockfile";
+export type * from "./manifest";
+export type * from "./references";
+export type * from "./release";
+export type * from "./runner";
+export type * from "./scheduler";
+export type { ReleaseType } from "./semver";
+export type * from "./serialize";
 export type * from "./types";
+export type * from "./validation";
+export type * from "./watch";
@@ -0,0 +1,327 @@
+import { readFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+
+import { isENOENT } from "./common";
+import type { ExternalPackage, Module, Workspace } from "./types";
+
+export interface Lockfile {
+	/** absolute path of the lockfile */
+	readonly path: string;
+	readonly format: LockfileFormat;
+
+	/** all third-party packages listed in the lockfile */
+	readonly packages: readonly ExternalPackage[];
+
+	/** @internal */
+	readonly entries: ReadonlyMap<string, LockEntry>;
+
+	/** @internal */
+	findModuleEntry(path: string, name: string): LockEntry | null;
+
+	/** @internal */
+	resolveDependency(from: LockEntry, name: string, range: string): LockEntry | null;
+}
+
+/**
+ * - `yarn` - yarn.lock of Yarn 2 and later
+ * - `npm` - package-lock.json of npm 7 and later, i.e. lockfile version 2 or 3
+ */
+export type LockfileFormat =
+	| "yarn"
+	| "npm";
+
+/** @internal */
+export interface LockEntry {
+	readonly key: string;
+
+	/** the resolved package, null for entries of workspace modules */
+	readonly package: ExternalPackage | null;
+
+	/** dependency ranges keyed by package name, as listed in the lockfile */
+	readonly dependencies: { readonly [TName in string]?: string };
+}
+
+/**
+ * File names of supported lockfiles, in the order of preference.
+ *
+ * @internal
+ */
+export const LOCKFILE_NAMES = [ "yarn.lock", "package-lock.json" ];
+
+/**
+ * Reads the lockfile located in the workspace root. Resolves to null if there is none.
+ */
+export async function readLockfile(workspace: Workspace): Promise<Lockfile | null> {
+	let path;
+	let text;
+
+	for (const name of LOCKFILE_NAMES) {
+		path = join(workspace.root.baseDir, name);
+		try {
+			text = await readFile(path, "utf8");
+			return parseLockfile(path, text);
+		}
+		catch (ex) {
+			if (!isENOENT(ex)) {
+				throw ex as Error;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Parses the contents of a lockfile, picking the format by the file name.
+ */
+export function parseLockfile(path: string, text: string): Lockfile {
+	try {
+		return path.endsWith("package-lock.json")
+			? parseNpmLockfile(path, text)
+			: parseYarnLockfile(path, text);
+	}
+	catch (ex) {
+		throw new Error(`Could not parse lockfile at '${path}'.`, {
+			cause: ex,
+		});
+	}
+}
+
+/**
+ * Lists third-party packages a module depends on directly or indirectly according to the
+ * lockfile, sorted by resolution. Packages reached only through other workspace modules are
+ * left out, as they belong to those modules.
+ */
+export function getExternalPackages(lockfile: Lockfile, workspace: Workspace, module: Module): ExternalPackage[] {
+	const path = relative(workspace.root.baseDir, module.baseDir).split(sep).join("/") || ".";
+	const origin = lockfile.findModuleEntry(path, module.package.name);
+	if (!origin) {
+		return [];
+	}
+
+	const visited = new Set([ origin ]);
+	const queue = [ origin ];
+	let entry;
+
+	for (let index = 0; index < queue.length; index += 1) {
+		const { dependencies } = queue[index];
+		for (const name in dependencies) {
+			entry = lockfile.resolveDependency(queue[index], name, dependencies[name]!);
+			if (entry?.package && !visited.has(entry)) {
+				visited.add(entry);
+				queue.push(entry);
+			}
+		}
+	}
+
+	return queue
+		.slice(1)
+		.map(it => it.package!)
+		.sort((a, b) => a.resolution < b.resolution ? -1 : a.resolution > b.resolution ? 1 : 0);
+}
+
+/**
+ * Attaches the third-party packages resolved by the lockfile to each module of the workspace,
+ * including the root. Resolves to the lockfile used, or null if there is none.
+ */
+export async function resolveExternalPackages(workspace: Workspace, lockfile?: Lockfile | null): Promise<Lockfile | null> {
+	lockfile ??= await readLockfile(workspace);
+	if (lockfile) {
+		for (const module of [ workspace.root, ...workspace.modules ]) {
+			module.externals = getExternalPackages(lockfile, workspace, module);
+		}
+	}
+
+	return lockfile;
+}
+
+
+// yarn
+
+function parseYarnLockfile(path: string, text: string): Lockfile {
+	const document = parseYarnDocument(text);
+	const entries = new Map<string, LockEntry>();
+	const descriptors = new Map<string, LockEntry>();
+	const packages: ExternalPackage[] = [];
+
+	for (const key in document) {
+		const value = document[key];
+		if (key === "__metadata" || typeof value !== "object") {
+			continue;
+		}
+
+		const resolution = String(value.resolution ?? "");
+		const isWorkspace = /^(?:@[^/@]+\/)?[^@]+@workspace:/.test(resolution);
+		const external = isWorkspace
+			? null
+			: {
+				name: resolution.slice(0, resolution.indexOf("@", 1)),
+				version: String(value.version ?? ""),
+				resolution,
+				checksum: typeof value.checksum === "string" ? value.checksum : null,
+			};
+
+		const entry: LockEntry = {
+			key: resolution,
+			package: external,
+			dependencies: typeof value.dependencies === "object" ? value.dependencies as { [K in string]: string } : {},
+		};
+
+		entries.set(resolution, entry);
+		key.split(/\s*,\s*/).forEach(it => descriptors.set(it, entry));
+		if (external) {
+			packages.push(external);
+		}
+	}
+
+	return {
+		path,
+		format: "yarn",
+		packages,
+		entries,
+		findModuleEntry: (modulePath, name) => entries.get(`${name}@workspace:${modulePath}`) ?? null,
+		resolveDependency: (_, name, range) => descriptors.get(`${name}@${range}`) ?? null,
+	};
+}
+
+type YarnValue = string | YarnDocument;
+
+interface YarnDocument {
+	[key: string]: YarnValue;
+}
+
+/**
+ * Parses the subset of YAML used by yarn.lock files, i.e. nested maps of scalars where nesting is
+ * expressed by indentation.
+ */
+function parseYarnDocument(text: string): YarnDocument {
+	const root: YarnDocument = {};
+	const stack: { indent: number; map: YarnDocument }[] = [ { indent: -1, map: root } ];
+
+	let match;
+	let indent;
+	let key;
+	let value;
+
+	for (const line of text.split(/\r?\n/)) {
+		if (/^\s*(?:#.*)?$/.test(line)) {
+			continue;
+		}
+
+		if (!(match = /^( *)("(?:[^"\\]|\\.)*"|[^\s"][^:]*(?::[^\s:][^:]*)*):(?: +(.*))?$/.exec(line))) {
+			throw new Error(`Unexpected line '${line}'.`);
+		}
+
+		indent = match[1].length;
+		key = parseYarnScalar(match[2]);
+		value = match[3];
+
+		while (stack[stack.length - 1].indent >= indent) {
+			stack.pop();
+		}
+
+		if (value === undefined || value === "") {
+			const map: YarnDocument = {};
+			stack[stack.length - 1].map[key] = map;
+			stack.push({ indent, map });
+		}
+		else {
+			stack[stack.length - 1].map[key] = parseYarnScalar(value);
+		}
+	}
+
+	return root;
+}
+
+function parseYarnScalar(text: string) {
+	return text.startsWith("\"")
+		? JSON.parse(text) as string
+		: text.trim();
+}
+
+
+// npm
+
+interface NpmLockfileDocument {
+	readonly lockfileVersion?: number;
+	readonly packages?: { readonly [TPath in string]?: NpmLockfilePackage };
+}
+
+interface NpmLockfilePackage {
+	readonly name?: string;
+	readonly version?: string;
+	readonly resolved?: string;
+	readonly integrity?: string;
+	readonly link?: boolean;
+	readonly dependencies?: { readonly [TName in string]?: string };
+	readonly devDependencies?: { readonly [TName in string]?: string };
+	readonly optionalDependencies?: { readonly [TName in string]?: string };
+}
+
+function parseNpmLockfile(path: string, text: string): Lockfile {
+	const document = JSON.parse(text) as NpmLockfileDocument;
+	if (!document.packages || (document.lockfileVersion ?? 0) < 2) {
+		throw new Error("Only lockfile versions 2 and 3 are supported.");
+	}
+
+	const entries = new Map<string, LockEntry>();
+	const packages: ExternalPackage[] = [];
+
+	for (const location in document.packages) {
+		const value = document.packages[location]!;
+		const isInstalled = location.includes("node_modules/");
+		const name = value.name ?? location.slice(location.lastIndexOf("node_modules/") + "node_modules/".length);
+		const external = isInstalled && !value.link
+			? {
+				name,
+				version: value.version ?? "",
+				resolution: `${name}@${value.version ?? ""}`,
+				checksum: value.integrity ?? null,
+			}
+			: null;
+
+		// workspace modules are listed twice, once as a link within node_modules
+		if (isInstalled && value.link) {
+			continue;
+		}
+
+		entries.set(location, {
+			key: location,
+			package: external,
+			dependencies: {
+				...value.optionalDependencies,
+				...value.devDependencies,
+				...value.dependencies,
+			},
+		});
+
+		if (external) {
+			packages.push(external);
+		}
+	}
+
+	return {
+		path,
+		format: "npm",
+		packages,
+		entries,
+		findModuleEntry: modulePath => entries.get(modulePath === "." ? "" : modulePath) ?? null,
+		resolveDependency: (from, name) => {
+			// node resolution: look into node_modules of the location and all its ancestors
+			let base = from.key;
+			let entry;
+			while (true) {
+				if ((entry = entries.get(`${base ? `${base}/` : ""}node_modules/${name}`))) {
+					return entry;
+				}
+
+				if (!base) {
+					return null;
+				}
+
+				const index = base.lastIndexOf("/node_modules/");
+				base = index === -1 ? "" : base.slice(0, index);
+			}
+		},
+	};
+}
@@ -0,0 +1,77 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { writeFileAtomic } from "./common";
+import type { Module, PackageDeclaration } from "./types";
+
+/**
+ * Formatting of a JSON file, preserved when the file is rewritten.
+ *
+ * @internal
+ */
+export interface ManifestFormat {
+	readonly bom: string;
+	readonly indent: string;
+	readonly eol: string;
+	readonly finalNewline: boolean;
+}
+
+export interface ManifestMutator {
+	(manifest: PackageDeclaration): PackageDeclaration | void | Promise<PackageDeclaration | void>;
+}
+
+/**
+ * Reads the 'package.json' file of a module, lets the mutator modify it and writes the result
+ * back. The mutator may either modify the passed manifest in place or return a new one.
+ *
+ * Indentation, line endings and the presence of a final newline are preserved, and key order is
+ * kept as long as the mutator does not rebuild objects. The file is replaced atomically and the
+ * Module object is updated to hold the new manifest. Resolves to whether the file changed.
+ */
+export async function updateModuleManifest(module: Module, mutator: ManifestMutator): Promise<boolean> {
+	const path = join(module.baseDir, "./package.json");
+	const text = await readFile(path, "utf8");
+	const format = detectFormat(text);
+
+	let manifest;
+	try {
+		manifest = JSON.parse(text.slice(format.bom.length)) as PackageDeclaration;
+	}
+	catch (ex) {
+		throw new Error(`Could not parse 'package.json' file at '${path}'.`, {
+			cause: ex,
+		});
+	}
+
+	manifest = (await mutator(manifest)) ?? manifest;
+
+	const updated = formatManifest(manifest, format);
+	if (updated === text) {
+		module.package = manifest;
+		return false;
+	}
+
+	// only updated once written, so that a failed write leaves the module in sync with the file
+	await writeFileAtomic(path, updated);
+	module.package = manifest;
+	return true;
+}
+
+/** @internal */
+export function detectFormat(text: string): ManifestFormat {
+	return {
+		bom: text.startsWith("\uFEFF") ? "\uFEFF" : "",
+		indent: /^([ \t]+)\S/m.exec(text)?.[1] ?? "",
+		eol: text.includes("\r\n") ? "\r\n" : "\n",
+		finalNewline: /\r?\n$/.test(text),
+	};
+}
+
+function formatManifest(manifest: PackageDeclaration, format: ManifestFormat) {
+	let json = JSON.stringify(manifest, null, format.indent);
+	if (format.eol !== "\n") {
+		json = json.replace(/\n/g, format.eol);
+	}
+
+	return format.bom + json + (format.finalNewline ? format.eol : "");
+}
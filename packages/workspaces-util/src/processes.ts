@@ -0,0 +1,128 @@
+import { spawn, spawnSync, type ChildProcess } from "node:child_process";
+
+import type { NodeError } from "./common";
+
+const FORWARDED_SIGNALS: NodeJS.Signals[] = [ "SIGINT", "SIGTERM", "SIGHUP" ];
+const activeProcesses = new Set<ChildProcess>();
+const processGroups = new WeakSet<ChildProcess>();
+
+let interruption = new AbortController();
+
+/**
+ * A signal aborted once the current process receives one of the forwarded signals while commands
+ * are running, with the received signal as its reason. Task schedulers use it to stop starting new
+ * commands.
+ */
+export function getInterruptSignal(): AbortSignal {
+	return interruption.signal;
+}
+
+/**
+ * Registers a running command, so that signals received by the current process are forwarded to
+ * it if it runs in its own process group. Commands sharing the process group of the current
+ * process already receive signals sent by the terminal.
+ */
+export function trackProcess(proc: ChildProcess, isGroup: boolean) {
+	if (activeProcesses.size === 0) {
+		FORWARDED_SIGNALS.forEach(signal => process.on(signal, forwardSignal));
+		process.on("exit", killAll);
+	}
+
+	if (isGroup) {
+		processGroups.add(proc);
+	}
+
+	activeProcesses.add(proc);
+}
+
+/**
+ * Unregisters a command once it exits. Once the last command exits, the signal listeners are
+ * removed and the interrupt signal is replaced by a fresh one. Deciding whether the current process
+ * should exit because of the interruption is left to the caller.
+ */
+export function untrackProcess(proc: ChildProcess) {
+	if (!activeProcesses.delete(proc) || activeProcesses.size > 0) {
+		return;
+	}
+
+	FORWARDED_SIGNALS.forEach(signal => process.off(signal, forwardSignal));
+	process.off("exit", killAll);
+
+	if (interruption.signal.aborted) {
+		interruption = new AbortController();
+	}
+}
+
+/**
+ * Sends a signal to a command and all processes it started. Commands in their own process group
+ * are signalled as a whole, descendants of other commands are looked up in the process table.
+ */
+export function killTree(proc: ChildProcess, signal: NodeJS.Signals) {
+	if (proc.pid === undefined || proc.exitCode !== null || proc.signalCode !== null) {
+		return;
+	}
+
+	if (process.platform === "win32") {
+		spawn("taskkill", [ "/pid", `${proc.pid}`, "/t", "/f" ], { stdio: "ignore" });
+		return;
+	}
+
+	// a negative pid addresses the whole process group
+	const pids = processGroups.has(proc)
+		? [ -proc.pid ]
+		: [ proc.pid, ...listDescendants(proc.pid) ];
+
+	for (const pid of pids) {
+		try {
+			process.kill(pid, signal);
+		}
+		catch (ex) {
+			if ((ex as NodeError).code !== "ESRCH") {
+				throw ex as Error;
+			}
+		}
+	}
+}
+
+/**
+ * Lists all processes started by a process, directly or indirectly. Resolves to an empty list if
+ * the process table cannot be read.
+ */
+function listDescendants(pid: number) {
+	const ps = spawnSync("ps", [ "-A", "-o", "pid=,ppid=" ], { encoding: "utf8" });
+	if (ps.status !== 0) {
+		return [];
+	}
+
+	const children = new Map<number, number[]>();
+	for (const line of ps.stdout.split("\n")) {
+		const [ childPid, parentPid ] = line.trim().split(/\s+/).map(Number);
+		if (childPid && parentPid) {
+			children.set(parentPid, [ ...(children.get(parentPid) ?? []), childPid ]);
+		}
+	}
+
+	const descendants: number[] = [];
+	const queue = [ pid ];
+	while (queue.length > 0) {
+		for (const child of children.get(queue.shift()!) ?? []) {
+			descendants.push(child);
+			queue.push(child);
+		}
+	}
+
+	return descendants;
+}
+
+function forwardSignal(signal: NodeJS.Signals) {
+	interruption.abort(signal);
+	activeProcesses.forEach(proc => processGroups.has(proc) && killTree(proc, signal));
+}
+
+/**
+ * Process groups do not receive signals sent to the terminal of the current process, so they are
+ * terminated when it exits without waiting for them.
+ */
+function killAll() {
+	activeProcesses.forEach(proc => killTree(proc, "SIGTERM"));
+}
@@ -0,0 +1,515 @@
+import { mkdir, readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+import { isENOENT, writeFileAtomic } from "./common";
+import { createWorkspaceGraph, type GraphOptions } from "./dependencies";
+import { detectFormat } from "./manifest";
+import type { Module } from "./types";
+
+export interface ProjectReferenceOptions extends GraphOptions {
+	/**
+	 * File name of the tsconfig file of each module. Modules without the file are left out.
+	 *
+	 * Defaults to `tsconfig.json`.
+	 */
+	readonly configName?: string;
+
+	/**
+	 * Path of a solution-style tsconfig file relative to the workspace root, which references the
+	 * tsconfig files of all modules. The file is created when missing.
+	 *
+	 * Defaults to none.
+	 */
+	readonly solutionConfig?: string;
+}
+
+export interface ReferenceDrift {
+	/** absolute path of the tsconfig file */
+	readonly path: string;
+
+	/** the module owning the tsconfig file, the workspace root for the solution config */
+	readonly module: Module;
+
+	/** paths of references that should be added, relative to the tsconfig file */
+	readonly missing: readonly string[];
+
+	/** paths of listed references that should be removed, relative to the tsconfig file */
+	readonly extraneous: readonly string[];
+
+	/**
+	 * paths of referenced or expected projects that do not enable `compilerOptions.composite`,
+	 * relative to the tsconfig file; `tsc --build` rejects references to them, so they are not
+	 * listed as missing and are never added
+	 */
+	readonly nonComposite: readonly string[];
+
+	/**
+	 * paths of referenced or expected projects extending a config that could not be resolved, so
+	 * whether they enable `compilerOptions.composite` is unknown, relative to the tsconfig file;
+	 * they are not listed as missing and are never added
+	 */
+	readonly unknownComposite: readonly string[];
+}
+
+interface ProjectReference {
+	readonly path: string;
+}
+
+interface ConfigFile {
+	readonly path: string;
+	readonly module: Module;
+
+	/** original text of the file, null if it does not exist */
+	readonly text: string | null;
+	readonly references: readonly ProjectReference[];
+
+	/**
+	 * whether the file or a config it extends enables `compilerOptions.composite`, null if a
+	 * config it extends could not be resolved
+	 */
+	readonly isComposite: boolean | null;
+
+	/** absolute paths of the tsconfig files the file should reference */
+	readonly expected: readonly string[];
+
+	/** absolute paths of expected tsconfig files that do not enable `compilerOptions.composite` */
+	readonly nonComposite: readonly string[];
+
+	/** absolute paths of expected tsconfig files for which `compilerOptions.composite` is unknown */
+	readonly unknownComposite: readonly string[];
+}
+
+interface ConfigContent {
+	readonly extends?: string | string[];
+	readonly compilerOptions?: { readonly composite?: boolean };
+	readonly references?: ProjectReference[];
+}
+
+/**
+ * Compares the `references` of module tsconfig files with the direct dependencies of each module
+ * and lists the files that differ. References are compared by the tsconfig file they point to.
+ */
+export async function getProjectReferenceDrift(options: ProjectReferenceOptions): Promise<ReferenceDrift[]> {
+	const configs = await readConfigs(options);
+	return configs
+		.map(describeDrift)
+		.filter(it => (
+			it.missing.length > 0 ||
+			it.extraneous.length > 0 ||
+			it.nonComposite.length > 0 ||
+			it.unknownComposite.length > 0
+		));
+}
+
+/**
+ * Rewrites the `references` of tsconfig files to match the dependency graph. Only the references
+ * are modified, other properties including `compilerOptions` and comments are kept as they are.
+ * Existing references are kept along with their options. References to projects that do not
+ * enable `compilerOptions.composite`, or for which it is unknown, are not added, as `tsc --build`
+ * would reject them, see ReferenceDrift. Resolves to the paths of the modified files.
+ */
+export async function syncProjectReferences(options: ProjectReferenceOptions): Promise<string[]> {
+	const modified: string[] = [];
+	for (const config of await readConfigs(options)) {
+		const drift = describeDrift(config);
+		if (drift.missing.length === 0 && drift.extraneous.length === 0) {
+			continue;
+		}
+
+		const dir = dirname(config.path);
+		const references = config.expected
+			.map(target => (
+				config.references.find(it => resolveReference(dir, it.path) === target) ??
+				(isAddable(config, target) ? { path: formatReference(dir, target) } : null)
+			))
+			.filter(it => it !== null);
+
+		if (config.text === null) {
+			await mkdir(dir, { recursive: true });
+		}
+
+		await writeFileAtomic(config.path, config.text === null
+			? createSolutionConfig(references)
+			: replaceReferences(config.path, config.text, references));
+
+		modified.push(config.path);
+	}
+
+	return modified;
+}
+
+async function readConfigs(options: ProjectReferenceOptions) {
+	const configName = options.configName ?? "tsconfig.json";
+	const graph = createWorkspaceGraph(options.workspace, options);
+	const configs: Omit<ConfigFile, "expected" | "nonComposite" | "unknownComposite">[] = [];
+	const existing = new Set<string>();
+	const composite = new Set<string>();
+	const unknown = new Set<string>();
+
+	for (const node of graph.nodes) {
+		const config = await readConfig(join(node.module.baseDir, configName), node.module);
+		if (config) {
+			configs.push(config);
+			existing.add(node.module.package.name);
+			if (config.isComposite) {
+				composite.add(config.path);
+			}
+			else if (config.isComposite === null) {
+				unknown.add(config.path);
+			}
+		}
+	}
+
+	const expectedOf = (modules: readonly Module[]) => modules
+		.filter(it => existing.has(it.package.name))
+		.map(it => join(it.baseDir, configName))
+		.sort();
+
+	const withExpected = (config: Omit<ConfigFile, "expected" | "nonComposite" | "unknownComposite">, modules: readonly Module[]): ConfigFile => {
+		const expected = expectedOf(modules);
+		return {
+			...config,
+			expected,
+			nonComposite: expected.filter(it => !composite.has(it) && !unknown.has(it)),
+			unknownComposite: expected.filter(it => unknown.has(it)),
+		};
+	};
+
+	const result = configs.map(config => withExpected(
+		config,
+		graph.getNode(config.module.package.name).dependencies.map(it => it.module),
+	));
+
+	if (options.solutionConfig !== undefined) {
+		const { root } = options.workspace;
+		const path = resolve(root.baseDir, options.solutionConfig);
+		result.push(withExpected(
+			await readConfig(path, root) ?? { path, module: root, text: null, references: [], isComposite: false },
+			graph.nodes.map(it => it.module),
+		));
+	}
+
+	return result;
+}
+
+async function readConfig(path: string, module: Module): Promise<Omit<ConfigFile, "expected" | "nonComposite" | "unknownComposite"> | null> {
+	const content = await readConfigContent(path);
+	if (!content) {
+		return null;
+	}
+
+	const { text, config } = content;
+	return {
+		path,
+		module,
+		text,
+		references: Array.isArray(config.references) ? config.references : [],
+		isComposite: await isComposite(path, config, new Set([ path ])),
+	};
+}
+
+async function readConfigContent(path: string) {
+	let text;
+	try {
+		text = await readFile(path, "utf8");
+	}
+	catch (ex) {
+		if (isENOENT(ex)) {
+			return null;
+		}
+
+		throw ex as Error;
+	}
+
+	try {
+		return {
+			text,
+			config: JSON.parse(stripJsonComments(text)) as ConfigContent,
+		};
+	}
+	catch (ex) {
+		throw new Error(`Could not parse tsconfig file at '${path}'.`, {
+			cause: ex,
+		});
+	}
+}
+
+/**
+ * Determines whether a tsconfig file enables `compilerOptions.composite`, following `extends`
+ * paths. Resolves to null if an extended config cannot be resolved.
+ */
+async function isComposite(path: string, config: ConfigContent, visited: Set<string>): Promise<boolean | null> {
+	if (config.compilerOptions?.composite !== undefined) {
+		return config.compilerOptions.composite === true;
+	}
+
+	const bases = typeof config.extends === "string" ? [ config.extends ] : config.extends ?? [];
+
+	// later entries of an extends list take precedence
+	for (const base of [ ...bases ].reverse()) {
+		const basePath = resolveExtends(path, base);
+		if (basePath === null) {
+			return null;
+		}
+
+		const content = !visited.has(basePath) && await readConfigContent(basePath);
+		if (!content) {
+			continue;
+		}
+
+		visited.add(basePath);
+		if (content.config.compilerOptions?.composite !== undefined || content.config.extends !== undefined) {
+			return isComposite(basePath, content.config, visited);
+		}
+	}
+
+	return false;
+}
+
+/**
+ * Resolves an `extends` path of a tsconfig file to an absolute path. Configs of packages are
+ * resolved the way Node.js resolves modules, trying the `tsconfig.json` file of the package when
+ * no file is named. Returns null if the config cannot be found.
+ */
+function resolveExtends(path: string, base: string) {
+	if (/^\.\.?[/\\]/.test(base) || isAbsolute(base)) {
+		return resolve(dirname(path), base.endsWith(".json") ? base : `${base}.json`);
+	}
+
+	const require = createRequire(path);
+	for (const candidate of base.endsWith(".json") ? [ base ] : [ `${base}/tsconfig.json`, `${base}.json`, base ]) {
+		try {
+			const resolved = require.resolve(candidate);
+			if (resolved.endsWith(".json")) {
+				return resolved;
+			}
+		}
+		catch (_ex) {
+			// try the next candidate
+		}
+	}
+
+	return null;
+}
+
+function isAddable(config: ConfigFile, target: string) {
+	return !config.nonComposite.includes(target) && !config.unknownComposite.includes(target);
+}
+
+function describeDrift(config: ConfigFile): ReferenceDrift {
+	const dir = dirname(config.path);
+	const actual = config.references.map(it => resolveReference(dir, it.path));
+
+	return {
+		path: config.path,
+		module: config.module,
+		missing: config.expected
+			.filter(it => !actual.includes(it) && isAddable(config, it))
+			.map(it => formatReference(dir, it)),
+		extraneous: config.references
+			.filter((_, index) => !config.expected.includes(actual[index]))
+			.map(it => it.path),
+		nonComposite: config.nonComposite.map(it => formatReference(dir, it)),
+		unknownComposite: config.unknownComposite.map(it => formatReference(dir, it)),
+	};
+}
+
+/**
+ * Resolves a reference to the absolute path of a tsconfig file. References pointing to a
+ * directory refer to its `tsconfig.json` file.
+ */
+function resolveReference(dir: string, path: string) {
+	const target = resolve(dir, path);
+	return target.endsWith(".json") ? target : join(target, "tsconfig.json");
+}
+
+function formatReference(dir: string, target: string) {
+	let path = relative(dir, target.endsWith(`${sep}tsconfig.json`) ? dirname(target) : target).split(sep).join("/");
+	if (!path.startsWith(".")) {
+		path = `./${path}`;
+	}
+
+	return path;
+}
+
+function createSolutionConfig(references: readonly ProjectReference[]) {
+	return JSON.stringify({ files: [], references }, null, "\t") + "\n";
+}
+
+/**
+ * Replaces the value of the top-level `references` property within the text of a tsconfig file,
+ * or adds the property if missing, keeping the rest of the text intact.
+ */
+function replaceReferences(path: string, text: string, references: readonly ProjectReference[]) {
+	const format = detectFormat(text);
+	const indent = format.indent || "\t";
+	const eol = format.eol;
+	const property = scanProperty(text, "references");
+	const value = JSON.stringify(references, null, indent)
+		.split("\n")
+		.join(eol + indent);
+
+	if (property.value) {
+		return text.slice(0, property.value.start) + value + text.slice(property.value.end);
+	}
+
+	if (property.closeIndex === -1) {
+		throw new Error(`Could not update tsconfig file at '${path}', it does not contain an object.`);
+	}
+
+	const separator = property.needsComma ? "," : "";
+	return text.slice(0, property.insertIndex) + `${separator}${eol}${indent}"references": ${value}` + text.slice(property.insertIndex);
+}
+
+/**
+ * Scans the text of a JSON file with comments for the value of a top-level property.
+ */
+function scanProperty(text: string, key: string) {
+	let index = 0;
+	let depth = 0;
+	let char;
+	let tokenStart;
+	let lastToken = "";
+	let lastEnd = 0;
+	let currentKey: string | null = null;
+	let value: { start: number; end: number } | null = null;
+	let valueStart = -1;
+	let closeIndex = -1;
+
+	while (index < text.length && closeIndex === -1) {
+		char = text[index];
+		if (/\s/.test(char)) {
+			index += 1;
+			continue;
+		}
+
+		if (text.startsWith("//", index)) {
+			index = text.indexOf("\n", index);
+			index = index === -1 ? text.length : index;
+			continue;
+		}
+
+		if (text.startsWith("/*", index)) {
+			index = text.indexOf("*/", index + 2);
+			index = index === -1 ? text.length : index + 2;
+			continue;
+		}
+
+		tokenStart = index;
+		if (char === "\"") {
+			index += 1;
+			while (index < text.length && text[index] !== "\"") {
+				index += text[index] === "\\" ? 2 : 1;
+			}
+
+			index += 1;
+			if (depth === 1 && (lastToken === "{" || lastToken === ",")) {
+				currentKey = JSON.parse(text.slice(tokenStart, index)) as string;
+			}
+		}
+		else if (depth === 1 && (char === "," || char === "}")) {
+			if (valueStart !== -1) {
+				value = { start: valueStart, end: lastEnd };
+				valueStart = -1;
+			}
+
+			if (char === "}") {
+				closeIndex = index;
+				break;
+			}
+
+			index += 1;
+		}
+		else if (char === "{" || char === "[") {
+			depth += 1;
+			index += 1;
+		}
+		else if (char === "}" || char === "]") {
+			depth -= 1;
+			index += 1;
+		}
+		else if (char === ":" && depth === 1) {
+			index += 1;
+			if (currentKey === key) {
+				valueStart = -2;
+			}
+		}
+		else {
+			// literals such as numbers, booleans or null
+			index += 1;
+			while (index < text.length && /[^\s,:{}[\]"/]/.test(text[index])) {
+				index += 1;
+			}
+		}
+
+		if (valueStart === -2 && char !== ":") {
+			valueStart = tokenStart;
+		}
+
+		lastToken = text.slice(tokenStart, index).charAt(0);
+		lastEnd = index;
+	}
+
+	return {
+		value,
+		closeIndex,
+		insertIndex: lastEnd,
+		needsComma: lastToken !== "{" && lastToken !== ",",
+	};
+}
+
+/**
+ * Removes comments and trailing commas from the text of a JSON file with comments.
+ */
+function stripJsonComments(text: string) {
+	let result = "";
+	let index = 0;
+	let start;
+	let char;
+	let hasComma = false;
+
+	while (index < text.length) {
+		char = text[index];
+		if (text.startsWith("//", index)) {
+			index = text.indexOf("\n", index);
+			index = index === -1 ? text.length : index;
+			continue;
+		}
+
+		if (text.startsWith("/*", index)) {
+			index = text.indexOf("*/", index + 2);
+			index = index === -1 ? text.length : index + 2;
+			continue;
+		}
+
+		if (/\s/.test(char)) {
+			result += char;
+			index += 1;
+			continue;
+		}
+
+		// commas are emitted once it is known they are not trailing
+		if (hasComma && char !== "}" && char !== "]") {
+			result += ",";
+		}
+
+		hasComma = char === ",";
+		start = index;
+		index += 1;
+
+		if (char === "\"") {
+			while (index < text.length && text[index] !== "\"") {
+				index += text[index] === "\\" ? 2 : 1;
+			}
+
+			index += 1;
+		}
+
+		if (!hasComma) {
+			result += text.slice(start, index);
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,217 @@
+import type { DependencyMapKey } from "./dependencies";
+import { getModule } from "./discovery";
+import { updateModuleManifest } from "./manifest";
+import { formatVersion, incrementVersion, isRange, parseVersion, satisfies, type ReleaseType } from "./semver";
+import type { Module, Workspace } from "./types";
+
+export interface ReleasePlanOptions {
+	readonly workspace: Workspace;
+
+	/** requested bumps keyed by module name */
+	readonly bumps: { readonly [TModuleName in string]?: ReleaseType };
+
+	/**
+	 * Identifier used for new prereleases, e.g. `alpha` turns `1.0.0` into `1.0.1-alpha.0`.
+	 *
+	 * Defaults to none, which starts prereleases with a numeric identifier.
+	 */
+	readonly preid?: string;
+
+	/**
+	 * Dependency maps whose changes cause a dependent to be released as well. Changes of
+	 * devDependencies do not affect consumers of a published module.
+	 *
+	 * Defaults to dependencies, peerDependencies and optionalDependencies.
+	 */
+	readonly propagate?: readonly DependencyMapKey[];
+
+	/**
+	 * Bump applied to dependents released because of their dependencies. Dependents with a
+	 * prerelease version always receive a prerelease bump.
+	 *
+	 * Defaults to `patch`.
+	 */
+	readonly dependentBump?: ReleaseType;
+}
+
+export interface ReleasePlan {
+	/** modules to release, in the order of workspace discovery */
+	readonly releases: readonly PlannedRelease[];
+
+	/** dependency ranges that no longer match the new versions and have to be updated */
+	readonly rangeUpdates: readonly RangeUpdate[];
+}
+
+export interface PlannedRelease {
+	readonly module: Module;
+	readonly type: ReleaseType;
+	readonly currentVersion: string;
+	readonly nextVersion: string;
+
+	/** whether the release was requested, false for dependents released because of a dependency */
+	readonly isRequested: boolean;
+}
+
+export interface RangeUpdate {
+	/** the module listing the dependency */
+	readonly module: Module;
+	readonly dependencyMap: DependencyMapKey;
+
+	/** name of the released dependency */
+	readonly name: string;
+	readonly currentRange: string;
+	readonly nextRange: string;
+}
+
+const ALL_DEPENDENCY_MAPS: DependencyMapKey[] = [
+	"dependencies",
+	"devDependencies",
+	"peerDependencies",
+	"optionalDependencies",
+];
+
+const DEFAULT_PROPAGATE: DependencyMapKey[] = [
+	"dependencies",
+	"peerDependencies",
+	"optionalDependencies",
+];
+
+/**
+ * Computes the versions of modules with requested bumps and of all dependents that have to be
+ * released with them. A dependent is released when the published form of its dependency changes,
+ * i.e. when it uses `workspace:*`, `workspace:^` or `workspace:~`, or when its range no longer
+ * matches the new version and has to be updated.
+ */
+export function planRelease(options: ReleasePlanOptions): ReleasePlan {
+	const { workspace, preid } = options;
+	const propagate = options.propagate ?? DEFAULT_PROPAGATE;
+	const releases = new Map<Module, PlannedRelease>();
+	const rangeUpdates: RangeUpdate[] = [];
+	const queue: Module[] = [];
+
+	const release = (module: Module, type: ReleaseType, isRequested: boolean) => {
+		const currentVersion = module.package.version ?? "";
+		const version = parseVersion(currentVersion);
+		if (!version) {
+			throw new Error(`Module '${module.package.name}' does not have a valid version to bump, got '${currentVersion}'.`);
+		}
+
+		releases.set(module, {
+			module,
+			type,
+			currentVersion,
+			nextVersion: formatVersion(incrementVersion(version, type, preid)),
+			isRequested,
+		});
+
+		queue.push(module);
+	};
+
+	for (const name in options.bumps) {
+		release(getModule(workspace, name), options.bumps[name]!, true);
+	}
+
+	let dependencyMap;
+	let specifier;
+	let update;
+
+	for (let index = 0; index < queue.length; index += 1) {
+		const { module, nextVersion } = releases.get(queue[index])!;
+		const name = module.package.name;
+
+		for (const dependent of [ workspace.root, ...workspace.modules ]) {
+			for (const mapKey of ALL_DEPENDENCY_MAPS) {
+				if (!(dependencyMap = dependent.package[mapKey]) || (specifier = dependencyMap[name]) === undefined) {
+					continue;
+				}
+
+				if (!(update = updateSpecifier(specifier, nextVersion))) {
+					continue;
+				}
+
+				if (update.specifier !== specifier) {
+					rangeUpdates.push({
+						module: dependent,
+						dependencyMap: mapKey,
+						name,
+						currentRange: specifier,
+						nextRange: update.specifier,
+					});
+				}
+
+				if (dependent !== workspace.root && !releases.has(dependent) && propagate.includes(mapKey)) {
+					const isPrerelease = (parseVersion(dependent.package.version ?? "")?.prerelease.length ?? 0) > 0;
+					release(dependent, isPrerelease ? "prerelease" : options.dependentBump ?? "patch", false);
+				}
+			}
+		}
+	}
+
+	return {
+		releases: workspace.modules
+			.filter(it => releases.has(it))
+			.map(it => releases.get(it)!),
+		rangeUpdates,
+	};
+}
+
+/**
+ * Writes the new versions and updated ranges of a release plan into the module manifests.
+ * Resolves to the list of modules that were modified.
+ */
+export async function applyReleasePlan(plan: ReleasePlan): Promise<Module[]> {
+	const modules = new Set([
+		...plan.releases.map(it => it.module),
+		...plan.rangeUpdates.map(it => it.module),
+	]);
+
+	const modified: Module[] = [];
+	for (const module of modules) {
+		const release = plan.releases.find(it => it.module === module);
+		const updates = plan.rangeUpdates.filter(it => it.module === module);
+		const isModified = await updateModuleManifest(module, manifest => {
+			if (release) {
+				manifest.version = release.nextVersion;
+			}
+
+			for (const update of updates) {
+				manifest[update.dependencyMap]![update.name] = update.nextRange;
+			}
+		});
+
+		if (isModified) {
+			modified.push(module);
+		}
+	}
+
+	return modified;
+}
+
+/**
+ * Determines how a dependency specifier has to change for a new version of the dependency.
+ * Returns null if the specifier is not affected by the new version at all.
+ */
+function updateSpecifier(specifier: string, nextVersion: string) {
+	let range = specifier;
+	let protocol = "";
+	if (specifier.startsWith("workspace:")) {
+		protocol = "workspace:";
+		range = specifier.slice(protocol.length);
+
+		// these are replaced by the actual version on publish
+		if (/^[*^~]?$/.test(range)) {
+			return { specifier };
+		}
+	}
+
+	if (!isRange(range) || satisfies(nextVersion, range)) {
+		return null;
+	}
+
+	// simple ranges keep their operator, complex ones are replaced by a caret range
+	const match = /^(\^|~|>=|=)?\s*v?\d+(?:\.\d+){0,2}(?:-[0-9A-Za-z.-]+)?$/.exec(range.trim());
+	const operator = match ? match[1] ?? "" : "^";
+	return {
+		specifier: `${protocol}${operator === "=" ? "" : operator}${nextVersion}`,
+	};
+}
@@ -1,59 +1,551 @@
 import { spawn } from "node:child_process";
 import { EOL } from "node:os";
 
+import { createTaskCache, type TaskCache, type TaskCacheOptions } from "./cache";
+import { createWorkspaceGraph, type GraphNode, type LevelQueryOptions, type WorkspaceGraphOptions } from "./dependencies";
 import { getModule } from "./discovery";
-import type { Workspace } from "./types";
+import { getInterruptSignal, killTree, trackProcess, untrackProcess } from "./processes";
+import { scheduleTasks, type FailureMode } from "./scheduler";
+import { selectNodes } from "./selection";
+import type { Module, Workspace } from "./types";
 
 export interface CommandError extends Error {
 	exitCode?: number | null;
+	signal?: NodeJS.Signals | null;
+	result?: CommandResult;
+
+	/** set when the command was terminated because of an AbortSignal or a timeout */
+	termination?: "abort" | "timeout";
+}
+
+export interface ProcessOptions {
+	/** aborting the signal terminates the whole process tree of the command */
+	readonly signal?: AbortSignal;
+
+	/** terminates the whole process tree of the command if it runs for longer */
+	readonly timeoutMs?: number;
+
+	/**
+	 * The signal used to terminate the command on abort or timeout. Processes still running after
+	 * a grace period are killed using SIGKILL.
+	 *
+	 * Defaults to SIGTERM.
+	 */
+	readonly killSignal?: NodeJS.Signals;
+
+	/** environment variables merged into the environment of the current process */
+	readonly env?: { readonly [TName in string]?: string };
+
+	/**
+	 * Runs the command inside a shell. A string value specifies the shell to use.
+	 *
+	 * Defaults to false.
+	 */
+	readonly shell?: boolean | string;
 }
 
+export interface CommandOptions extends ProcessOptions {
+	/**
+	 * The working directory of the command.
+	 *
+	 * Defaults to the current working directory.
+	 */
+	readonly cwd?: string;
+
+	/**
+	 * Controls what happens with the output of the command:
+	 * - `inherit` - output is written directly to the output of the current process
+	 * - `capture` - output is only collected into the result
+	 * - `prefix` - output is collected and written line by line, each line prefixed
+	 * - `buffer` - output is collected and written all at once after the command exits
+	 *
+	 * Defaults to `inherit`.
+	 */
+	readonly output?: OutputMode;
+
+	/** text to prefix each line with in the `prefix` output mode, e.g. a module name */
+	readonly prefix?: string;
+}
+
+export type OutputMode =
+	| "inherit"
+	| "capture"
+	| "prefix"
+	| "buffer";
+
+export interface CommandResult {
+	readonly exitCode: number | null;
+	readonly signal: NodeJS.Signals | null;
+	readonly timeMs: number;
+
+	/** collected standard output, empty in the `inherit` output mode */
+	readonly stdout: string;
+
+	/** collected standard error output, empty in the `inherit` output mode */
+	readonly stderr: string;
+
+	/** set when the result was restored from the cache instead of running the command */
+	readonly cached?: boolean;
+}
+
+const STDERR_TAIL_LINES = 10;
+const KILL_GRACE_MS = 5_000;
+
+/**
+ * Runs a command and resolves to its result once it exits successfully. Commands not inheriting
+ * the output are started in their own process group, so that the whole process tree can be
+ * terminated; commands inheriting it stay attached to the terminal of the current process.
+ *
+ * SIGINT, SIGTERM and SIGHUP received by the current process are forwarded to commands running in
+ * their own process group and no further workspace tasks are started. Process groups still running
+ * when the current process exits are terminated.
+ */
 export function runCommand(
 	command: string,
 	args: readonly string[] = [],
-	cwd: string = process.cwd(),
-): Promise<void> {
+	cwdOrOptions: string | CommandOptions = {},
+): Promise<CommandResult> {
+	const options = typeof cwdOrOptions === "string" ? { cwd: cwdOrOptions } : cwdOrOptions;
+	const output = options.output ?? "inherit";
+	const startTime = Date.now();
+
 	return new Promise((resolve, reject) => {
+		if (options.signal?.aborted) {
+			reject(createTerminationError("abort", options));
+			return;
+		}
+
+		const isGroup = process.platform !== "win32" && output !== "inherit";
 		const proc = spawn(command, args, {
-			cwd,
-			stdio: "inherit",
+			cwd: options.cwd ?? process.cwd(),
+			env: mergeEnv(options.env),
+			shell: options.shell,
+			detached: isGroup,
+			stdio: output === "inherit" ? "inherit" : [ "inherit", "pipe", "pipe" ],
 		});
 
-		proc.on("error", reject);
-		proc.on("exit", code => {
-			if (code === 0) {
-				resolve();
+		let termination: CommandError["termination"];
+		let timeoutTimer: NodeJS.Timeout | undefined;
+		let killTimer: NodeJS.Timeout | undefined;
+
+		const terminate = (reason: NonNullable<CommandError["termination"]>) => {
+			if (termination) {
+				return;
 			}
-			else {
-				const error = new Error(`Command failed with exit code ${code}.`);
-				(error as CommandError).exitCode = code;
+
+			termination = reason;
+			killTree(proc, options.killSignal ?? "SIGTERM");
+			killTimer = setTimeout(() => killTree(proc, "SIGKILL"), KILL_GRACE_MS);
+			killTimer.unref();
+		};
+
+		const onAbort = () => terminate("abort");
+		const cleanup = () => {
+			clearTimeout(timeoutTimer);
+			clearTimeout(killTimer);
+			options.signal?.removeEventListener("abort", onAbort);
+			untrackProcess(proc);
+		};
+
+		trackProcess(proc, isGroup);
+		options.signal?.addEventListener("abort", onAbort);
+		if (options.timeoutMs !== undefined) {
+			timeoutTimer = setTimeout(() => terminate("timeout"), options.timeoutMs);
+		}
+
+		// chunks of both streams in the order they arrived, for the buffer mode
+		const chunks: [ NodeJS.WriteStream, string ][] = [];
+		let stdout = "";
+		let stderr = "";
+
+		const collect = (target: NodeJS.WriteStream, append: (text: string) => void) => {
+			let pending = "";
+			return {
+				data: (data: Buffer) => {
+					const text = data.toString("utf8");
+					append(text);
+
+					if (output === "buffer") {
+						chunks.push([ target, text ]);
+					}
+					else if (output === "prefix") {
+						const lines = (pending + text).split(/\r?\n/);
+						pending = lines.pop()!;
+						lines.forEach(line => target.write(`${options.prefix ?? ""} │ ${line}${EOL}`));
+					}
+				},
+				end: () => {
+					if (pending) {
+						target.write(`${options.prefix ?? ""} │ ${pending}${EOL}`);
+					}
+				},
+			};
+		};
+
+		if (proc.stdout && proc.stderr) {
+			const out = collect(process.stdout, text => stdout += text);
+			const err = collect(process.stderr, text => stderr += text);
+			proc.stdout.on("data", out.data).on("end", out.end);
+			proc.stderr.on("data", err.data).on("end", err.end);
+		}
+
+		proc.on("error", ex => {
+			cleanup();
+			reject(ex);
+		});
+
+		proc.on("close", (exitCode, signal) => {
+			cleanup();
+			chunks.forEach(([ target, text ]) => target.write(text));
+
+			const result: CommandResult = {
+				exitCode,
+				signal,
+				timeMs: Date.now() - startTime,
+				stdout,
+				stderr,
+			};
+
+			if (termination) {
+				const error = createTerminationError(termination, options);
+				error.exitCode = exitCode;
+				error.signal = signal;
+				error.result = result;
 
 				reject(error);
+				return;
+			}
+
+			if (exitCode === 0) {
+				resolve(result);
+				return;
 			}
+
+			const reason = signal ? `was terminated by ${signal}` : `failed with exit code ${exitCode}`;
+			const tail = stderr.trimEnd().split(/\r?\n/).slice(-STDERR_TAIL_LINES).join(EOL);
+			const error = new Error(`Command ${reason}.${tail ? `${EOL}${tail}` : ""}`) as CommandError;
+			error.exitCode = exitCode;
+			error.signal = signal;
+			error.result = result;
+
+			reject(error);
 		});
 	});
 }
 
-export interface WorkspaceCommandOptions {
+function createTerminationError(termination: NonNullable<CommandError["termination"]>, options: ProcessOptions) {
+	const error = (
+		termination === "abort"
+			? new Error("Command was aborted.", { cause: options.signal?.reason })
+			: new Error(`Command timed out after ${options.timeoutMs}ms.`)
+	) as CommandError;
+
+	error.termination = termination;
+	return error;
+}
+
+function mergeEnv(env?: ProcessOptions["env"]) {
+	if (!env) {
+		return process.env;
+	}
+
+	const merged = { ...process.env, ...env };
+	for (const name in merged) {
+		if (merged[name] === undefined) {
+			delete merged[name];
+		}
+	}
+
+	return merged;
+}
+
+export interface WorkspaceCommandOptions extends ProcessOptions {
 	readonly workspace: Workspace;
 	readonly moduleName: string;
 	readonly command: string;
 	readonly args?: readonly string[];
+
+	/**
+	 * Controls what happens with the output of the command, see CommandOptions. Output is
+	 * prefixed with the module name in the `prefix` mode.
+	 *
+	 * Defaults to `inherit`.
+	 */
+	readonly output?: OutputMode;
+
+	/**
+	 * Skips the command when a cache entry matching its inputs exists, restoring the recorded
+	 * outputs and logs instead. Output of cached commands is always collected, so the `inherit`
+	 * mode behaves like `buffer`.
+	 *
+	 * Defaults to no caching.
+	 */
+	readonly cache?: TaskCacheOptions;
+}
+
+export async function runWorkspaceCommand(options: WorkspaceCommandOptions): Promise<CommandResult>;
+export async function runWorkspaceCommand(options: WorkspaceCommandOptions) {
+	const module = getModule(options.workspace, options.moduleName);
+	if (!options.cache) {
+		return runModuleCommand(module, options.command, options.args, options);
+	}
+
+	const graph = createWorkspaceGraph(options.workspace);
+	const cache = createTaskCache<CommandResult>(graph, options.cache);
+	return runCachedCommand(cache, graph.getNode(module.package.name), options.command, options.args, options);
 }
 
-export async function runWorkspaceCommand(options: WorkspaceCommandOptions): Promise<void>;
-export async function runWorkspaceCommand({ workspace, moduleName, command, args }: WorkspaceCommandOptions) {
+export interface WorkspaceScriptOptions extends WorkspaceGraphOptions, LevelQueryOptions, ProcessOptions {
+	readonly workspace: Workspace;
+
+	/** name of the package.json script to run */
+	readonly script: string;
+
+	/** additional arguments passed to the script */
+	readonly args?: readonly string[];
+
+	/**
+	 * Filter expressions selecting modules to run the script in, see FilterOptions. Plain module
+	 * names select the named modules.
+	 *
+	 * Defaults to all workspace modules.
+	 */
+	readonly selection?: readonly string[];
+
+	/**
+	 * Whether to wait for the script to finish in all dependencies of a module before running it
+	 * in the module itself.
+	 *
+	 * Defaults to true.
+	 */
+	readonly topological?: boolean;
+
+	/**
+	 * Maximum number of scripts running at the same time.
+	 *
+	 * Defaults to 1.
+	 */
+	readonly concurrency?: number;
+
+	/**
+	 * Controls what happens once a script fails, see ScheduleOptions.
+	 *
+	 * Defaults to `bail`.
+	 */
+	readonly failureMode?: FailureMode;
+
+	/**
+	 * Controls what happens with the output of the scripts, see CommandOptions. Using `prefix` or
+	 * `buffer` is advised when running scripts concurrently.
+	 *
+	 * Defaults to `inherit`.
+	 */
+	readonly output?: OutputMode;
+
+	/**
+	 * Skips scripts whose inputs match a cache entry, see WorkspaceCommandOptions.
+	 *
+	 * Defaults to no caching.
+	 */
+	readonly cache?: TaskCacheOptions;
+}
+
+export interface ScriptResult {
+	readonly module: Module;
+	readonly status: ScriptStatus;
+	readonly error?: Error;
+	readonly timeMs?: number;
+
+	/** result of the command, available unless the script was not started */
+	readonly result?: CommandResult;
+}
+
+/**
+ * - `pass` - the script finished successfully
+ * - `fail` - the script failed
+ * - `missing` - the module does not define the script
+ * - `skip` - the script was not run because of a failure
+ */
+export type ScriptStatus =
+	| "pass"
+	| "fail"
+	| "missing"
+	| "skip";
+
+/**
+ * Runs a package.json script in each of the selected workspace modules, skipping modules that do
+ * not define it. Resolves to a result per selected module, in topological order unless disabled.
+ */
+export async function runWorkspaceScript(options: WorkspaceScriptOptions): Promise<ScriptResult[]> {
+	const { workspace, script, args = [], topological = true } = options;
+	const fullGraph = createWorkspaceGraph(workspace, options);
+	const selected = options.selection ? selectNodes(fullGraph, options.selection) : fullGraph.nodes;
+
+	// scripts of modules forming a tolerated cycle do not wait for each other
+	const graph = options.allowDevCycles ? fullGraph.withoutDevCycles() : fullGraph;
+	const selection = selected.map(it => graph.getNode(it.module.package.name));
+	const nodes = topological
+		? graph.levels(selection.map(it => it.module.package.name)).flat(1)
+		: selection;
+
+	const [ command, commandArgs ] = getScriptCommand(workspace, script, args);
+	const cache = options.cache && createTaskCache<CommandResult>(graph, options.cache);
+	const results = await scheduleTasks({
+		nodes,
+		concurrency: options.concurrency,
+		topological,
+		failureMode: options.failureMode,
+		signal: options.signal ? AbortSignal.any([ options.signal, getInterruptSignal() ]) : getInterruptSignal(),
+		task: async node => {
+			if (node.module.package.scripts?.[script] === undefined) {
+				return null;
+			}
+
+			return cache
+				? runCachedCommand(cache, node, command, commandArgs, options)
+				: runModuleCommand(node.module, command, commandArgs, options);
+		},
+	});
+
+	return results.map(({ node, status, value, error, timeMs }) => ({
+		module: node.module,
+		status: status === "pass" && !value ? "missing" : status,
+		error,
+		timeMs,
+		result: value ?? (error as CommandError | undefined)?.result,
+	}));
+}
+
+/**
+ * Picks the package manager used to run scripts, preferring the one named by the root
+ * `packageManager` field.
+ */
+function getScriptCommand(workspace: Workspace, script: string, args: readonly string[]): [ string, string[] ] {
+	const manager = workspace.root.package.packageManager?.split("@")[0] ?? (workspace.layout === "pnpm" ? "pnpm" : "npm");
+	return manager === "npm"
+		? [ manager, [ "run", script, ...(args.length > 0 ? [ "--", ...args ] : []) ] ]
+		: [ manager, [ "run", script, ...args ] ];
+}
+
+async function runModuleCommand(
+	module: Module,
+	command: string,
+	args: readonly string[] = [],
+	options: ProcessOptions & { readonly output?: OutputMode },
+) {
+	const moduleName = module.package.name;
+	const commandOptions: CommandOptions = {
+		signal: options.signal,
+		timeoutMs: options.timeoutMs,
+		killSignal: options.killSignal,
+		env: options.env,
+		shell: options.shell,
+		cwd: module.baseDir,
+	};
+
+	switch (options.output ?? "inherit") {
+		case "inherit": {
+			printHeader(moduleName, command, args);
+			const result = await runCommand(command, args, commandOptions);
+			println();
+			return result;
+		}
+
+		case "buffer": {
+			// output is captured and flushed together with the header once the command exits
+			const flush = (result?: CommandResult) => {
+				if (result) {
+					printHeader(moduleName, command, args);
+					process.stdout.write(result.stdout);
+					process.stderr.write(result.stderr);
+					println();
+				}
+			};
+
+			let result;
+			try {
+				result = await runCommand(command, args, {
+					...commandOptions,
+					output: "capture",
+				});
+			}
+			catch (ex) {
+				flush((ex as CommandError).result);
+				throw ex as Error;
+			}
+
+			flush(result);
+			return result;
+		}
+
+		default:
+			return runCommand(command, args, {
+				...commandOptions,
+				output: options.output,
+				prefix: moduleName,
+			});
+	}
+}
+
+async function runCachedCommand(
+	cache: TaskCache<CommandResult>,
+	node: GraphNode,
+	command: string,
+	args: readonly string[] = [],
+	options: ProcessOptions & { readonly output?: OutputMode },
+): Promise<CommandResult> {
+	const hash = await cache.hashTask(node, command, args, mergeEnv(options.env));
+	const cached = await cache.restore(node, hash);
+	if (cached) {
+		replayOutput(node.module.package.name, command, args, cached, options.output);
+		return {
+			...cached,
+			cached: true,
+		};
+	}
+
+	const result = await runModuleCommand(node.module, command, args, {
+		...options,
+		output: (options.output ?? "inherit") === "inherit" ? "buffer" : options.output,
+	});
+
+	await cache.save(node, hash, result);
+	return result;
+}
+
+function replayOutput(moduleName: string, command: string, args: readonly string[], result: CommandResult, output: OutputMode = "inherit") {
+	switch (output) {
+		case "inherit":
+		case "buffer":
+			printHeader(moduleName, command, args);
+			process.stdout.write(result.stdout);
+			process.stderr.write(result.stderr);
+			println();
+			break;
+
+		case "prefix": {
+			const write = (target: NodeJS.WriteStream, text: string) => {
+				if (text) {
+					text.replace(/\r?\n$/, "")
+						.split(/\r?\n/)
+						.forEach(line => target.write(`${moduleName} │ ${line}${EOL}`));
+				}
+			};
+
+			write(process.stdout, result.stdout);
+			write(process.stderr, result.stderr);
+			break;
+		}
+	}
+}
+
+function printHeader(moduleName: string, command: string, args?: readonly string[]) {
 	const line0 = moduleName;
 	const line1 = `$ ${command} ${args?.join(" ") ?? ""}`;
 
 	println(`[1;97m${line0}\u001b[0m`);
 	println(line1);
 	println("─".repeat(Math.min(Math.max(line0.length, line1.length), 80)));
-
-	const module = getModule(workspace, moduleName);
-	await runCommand(command, args, module.baseDir);
-
-	println();
 }
 
 export function print(message: string) {
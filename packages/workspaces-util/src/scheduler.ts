@@ -0,0 +1,197 @@
+import type { GraphNode } from "./dependencies";
+
+export interface ScheduleOptions<T> {
+	/**
+	 * Nodes to run the task for. A task waits for the tasks of all listed nodes it depends on,
+	 * including indirect dependencies through nodes that are not listed.
+	 */
+	readonly nodes: readonly GraphNode[];
+
+	readonly task: (node: GraphNode) => Promise<T>;
+
+	/**
+	 * Maximum number of tasks running at the same time.
+	 *
+	 * Defaults to 1.
+	 */
+	readonly concurrency?: number;
+
+	/**
+	 * Whether tasks wait for the tasks of their dependencies. When disabled, tasks start in the
+	 * order of the listed nodes as soon as there is a free slot.
+	 *
+	 * Defaults to true.
+	 */
+	readonly topological?: boolean;
+
+	/**
+	 * Controls what happens once a task fails:
+	 * - `bail` - no new tasks are started, running tasks are awaited
+	 * - `continue` - other tasks keep running, only dependents of the failed node are skipped
+	 *
+	 * Defaults to `bail`.
+	 */
+	readonly failureMode?: FailureMode;
+
+	/** aborting the signal prevents any further tasks from being started */
+	readonly signal?: AbortSignal;
+}
+
+export type FailureMode =
+	| "bail"
+	| "continue";
+
+export interface TaskResult<T> {
+	readonly node: GraphNode;
+	readonly status: TaskStatus;
+	readonly value?: T;
+	readonly error?: Error;
+	readonly timeMs?: number;
+}
+
+/**
+ * - `pass` - the task resolved
+ * - `fail` - the task rejected
+ * - `skip` - the task was not started due to a failure or an abort
+ */
+export type TaskStatus =
+	| "pass"
+	| "fail"
+	| "skip";
+
+type TaskState =
+	| "ready"
+	| "waiting"
+	| "skip";
+
+/**
+ * Runs an async task for each of the listed nodes, starting each task as soon as the tasks of all
+ * its dependencies have passed. Resolves to a result per node in the order the nodes were listed,
+ * regardless of the order in which the tasks finished.
+ */
+export function scheduleTasks<T>(options: ScheduleOptions<T>): Promise<TaskResult<T>[]> {
+	const { nodes, task, topological = true, failureMode = "bail" } = options;
+	const concurrency = Math.max(1, options.concurrency ?? 1);
+	const prerequisites = topological
+		? collectPrerequisites(nodes)
+		: new Map(nodes.map(node => [ node, [] ]));
+
+	const results = new Map<GraphNode, TaskResult<T>>();
+	const pending = [ ...nodes ];
+	let running = 0;
+	let hasFailed = false;
+
+	const getState = (node: GraphNode): TaskState => {
+		if ((hasFailed && failureMode === "bail") || options.signal?.aborted) {
+			return "skip";
+		}
+
+		let state: TaskState = "ready";
+		let result;
+		for (const prerequisite of prerequisites.get(node)!) {
+			if (!(result = results.get(prerequisite))) {
+				state = "waiting";
+			}
+			else if (result.status !== "pass") {
+				return "skip";
+			}
+		}
+
+		return state;
+	};
+
+	return new Promise((resolve, reject) => {
+		const start = (node: GraphNode) => {
+			const startTime = Date.now();
+			running += 1;
+
+			Promise
+				.resolve()
+				.then(() => task(node))
+				.then(
+					value => {
+						results.set(node, { node, status: "pass", value, timeMs: Date.now() - startTime });
+					},
+					ex => {
+						hasFailed = true;
+						results.set(node, { node, status: "fail", error: ex as Error, timeMs: Date.now() - startTime });
+					},
+				)
+				.finally(() => {
+					running -= 1;
+					pump();
+				});
+		};
+
+		const pump = () => {
+			let index = 0;
+			let node;
+			let state;
+
+			while (index < pending.length && running < concurrency) {
+				node = pending[index];
+				state = getState(node);
+				if (state === "waiting") {
+					index += 1;
+					continue;
+				}
+
+				pending.splice(index, 1);
+				if (state === "ready") {
+					start(node);
+					continue;
+				}
+
+				// a skipped node may cause nodes listed earlier to be skipped as well
+				results.set(node, { node, status: "skip" });
+				index = 0;
+			}
+
+			if (running > 0) {
+				return;
+			}
+
+			if (pending.length > 0) {
+				const names = pending.map(it => it.module.package.name).join(", ");
+				reject(new Error(`Dependency cycle found between: ${names}`));
+				return;
+			}
+
+			resolve(nodes.map(it => results.get(it)!));
+		};
+
+		pump();
+	});
+}
+
+/**
+ * Finds the nearest listed nodes each listed node depends on, looking through dependencies
+ * which are not listed.
+ */
+function collectPrerequisites(nodes: readonly GraphNode[]) {
+	const listed = new Set(nodes);
+	const nearest = new Map<GraphNode, Set<GraphNode>>();
+
+	const collect = (node: GraphNode) => {
+		let found = nearest.get(node);
+		if (found) {
+			return found;
+		}
+
+		found = new Set();
+		nearest.set(node, found);
+
+		for (const dependency of node.dependencies) {
+			if (listed.has(dependency)) {
+				found.add(dependency);
+			}
+			else {
+				collect(dependency).forEach(it => found.add(it));
+			}
+		}
+
+		return found;
+	};
+
+	return new Map(nodes.map(node => [ node, [ ...collect(node) ] ]));
+}
@@ -0,0 +1,124 @@
+import { relative, sep } from "node:path";
+
+import type { GraphNode, WorkspaceGraph } from "./dependencies";
+import { createGlobMatcher } from "./glob";
+
+interface ModuleFilter {
+	readonly isExclusion: boolean;
+	readonly match: (node: GraphNode) => boolean;
+	readonly withDependencies: boolean;
+	readonly withDependents: boolean;
+	readonly includeSelf: boolean;
+}
+
+/**
+ * Resolves filter expressions to the matching nodes of the graph, in the order of workspace
+ * discovery. See FilterOptions for the syntax of the expressions.
+ */
+export function selectNodes(graph: WorkspaceGraph, filters: readonly string[]): GraphNode[] {
+	const parsed = filters.map(it => parseFilter(graph, it));
+	const included = new Set<GraphNode>();
+	const excluded = new Set<GraphNode>();
+
+	if (parsed.every(it => it.isExclusion)) {
+		graph.nodes.forEach(node => included.add(node));
+	}
+
+	for (const filter of parsed) {
+		const target = filter.isExclusion ? excluded : included;
+		for (const node of graph.nodes) {
+			if (filter.match(node)) {
+				expand(node, filter, target);
+			}
+		}
+	}
+
+	return graph.nodes.filter(node => included.has(node) && !excluded.has(node));
+}
+
+function parseFilter(graph: WorkspaceGraph, expression: string): ModuleFilter {
+	let selector = expression.trim();
+	let withDependencies = false;
+	let withDependents = false;
+	let includeSelf = true;
+
+	const isExclusion = selector.startsWith("!");
+	if (isExclusion) {
+		selector = selector.slice(1);
+	}
+
+	if (selector.startsWith("...")) {
+		withDependents = true;
+		selector = selector.slice(3);
+		if (selector.startsWith("^")) {
+			includeSelf = false;
+			selector = selector.slice(1);
+		}
+	}
+
+	if (selector.endsWith("...")) {
+		withDependencies = true;
+		selector = selector.slice(0, -3);
+		if (selector.endsWith("^")) {
+			includeSelf = false;
+			selector = selector.slice(0, -1);
+		}
+	}
+
+	if (selector.length === 0) {
+		throw new Error(`Invalid filter expression '${expression}'.`);
+	}
+
+	return {
+		isExclusion,
+		match: /^\.\.?(?:\/|$)/.test(selector)
+			? createDirectoryMatcher(graph.workspace.root.baseDir, selector)
+			: createNameMatcher(selector),
+		withDependencies,
+		withDependents,
+		includeSelf,
+	};
+}
+
+function createNameMatcher(pattern: string) {
+	const source = pattern
+		.split("*")
+		.map(it => it.replace(/[$()+.?[\\\]^{|}]/g, "\\$&"))
+		.join(".*");
+
+	const regex = new RegExp(`^${source}$`);
+	return (node: GraphNode) => regex.test(node.module.package.name);
+}
+
+function createDirectoryMatcher(rootDir: string, pattern: string) {
+	const matches = createGlobMatcher(pattern);
+	return (node: GraphNode) => matches(relative(rootDir, node.module.baseDir).split(sep).join("/") || ".");
+}
+
+function expand(origin: GraphNode, filter: ModuleFilter, target: Set<GraphNode>) {
+	if (filter.includeSelf || (!filter.withDependencies && !filter.withDependents)) {
+		target.add(origin);
+	}
+
+	const collect = (next: (node: GraphNode) => readonly GraphNode[]) => {
+		const visited = new Set([ origin ]);
+		const queue = [ origin ];
+		for (let index = 0; index < queue.length; index += 1) {
+			for (const node of next(queue[index])) {
+				if (!visited.has(node)) {
+					visited.add(node);
+					target.add(node);
+					queue.push(node);
+				}
+			}
+		}
+	};
+
+	if (filter.withDependencies) {
+		collect(node => node.dependencies);
+	}
+
+	if (filter.withDependents) {
+		collect(node => node.dependents);
+	}
+}
@@ -0,0 +1,360 @@
+export interface Version {
+	readonly major: number;
+	readonly minor: number;
+	readonly patch: number;
+	readonly prerelease: readonly (string | number)[];
+}
+
+interface Comparator {
+	readonly operator: "<" | "<=" | ">" | ">=" | "=";
+	readonly version: Version;
+}
+
+interface PartialVersion {
+	readonly major?: number;
+	readonly minor?: number;
+	readonly patch?: number;
+	readonly prerelease: readonly (string | number)[];
+}
+
+const VERSION_REGEX = /^[v=]?\s*(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_REGEX = /^[v=]?\s*(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const COMPARATOR_REGEX = /^(<=|>=|<|>|=|\^|~>?)?\s*(.*)$/;
+
+/**
+ * Parses a full semver version string, returns null if the string is not a valid version.
+ */
+export function parseVersion(text: string): Version | null {
+	const match = VERSION_REGEX.exec(text.trim());
+	if (!match) {
+		return null;
+	}
+
+	return {
+		major: +match[1],
+		minor: +match[2],
+		patch: +match[3],
+		prerelease: parsePrerelease(match[4]),
+	};
+}
+
+export function formatVersion(version: Version): string {
+	const core = `${version.major}.${version.minor}.${version.patch}`;
+	return version.prerelease.length > 0
+		? `${core}-${version.prerelease.join(".")}`
+		: core;
+}
+
+export function compareVersions(a: Version, b: Version): number {
+	return (
+		a.major - b.major ||
+		a.minor - b.minor ||
+		a.patch - b.patch ||
+		comparePrerelease(a.prerelease, b.prerelease)
+	);
+}
+
+export type ReleaseType =
+	| "major"
+	| "minor"
+	| "patch"
+	| "prerelease";
+
+/**
+ * Increments a version following the npm semantics. Bumping a prerelease removes the prerelease
+ * when the bumped part is already at the released version, e.g. `1.0.0-alpha.18` becomes `1.0.0`
+ * when bumping major. Prerelease bumps increment the last numeric identifier, or start a new
+ * prerelease of the next patch version.
+ */
+export function incrementVersion(current: Version, type: ReleaseType, preid?: string): Version {
+	const { major, minor, patch, prerelease } = current;
+	const isPrerelease = prerelease.length > 0;
+
+	switch (type) {
+		case "major":
+			return isPrerelease && minor === 0 && patch === 0
+				? version(major, minor, patch)
+				: version(major + 1);
+
+		case "minor":
+			return isPrerelease && patch === 0
+				? version(major, minor, patch)
+				: version(major, minor + 1);
+
+		case "patch":
+			return isPrerelease
+				? version(major, minor, patch)
+				: version(major, minor, patch + 1);
+
+		case "prerelease": {
+			if (!isPrerelease) {
+				return version(major, minor, patch + 1, preid ? [ preid, 0 ] : [ 0 ]);
+			}
+
+			if (preid && prerelease[0] !== preid) {
+				return version(major, minor, patch, [ preid, 0 ]);
+			}
+
+			const identifiers = [ ...prerelease ];
+			const index = identifiers.findLastIndex(it => typeof it === "number");
+			if (index === -1) {
+				identifiers.push(0);
+			}
+			else {
+				identifiers[index] = (identifiers[index] as number) + 1;
+			}
+
+			return version(major, minor, patch, identifiers);
+		}
+	}
+}
+
+/**
+ * Checks whether a version satisfies a range using the npm range syntax. Returns false for
+ * invalid versions and for specifiers that are not ranges, e.g. tags or URLs.
+ */
+export function satisfies(versionText: string, range: string): boolean {
+	const version = parseVersion(versionText);
+	const sets = parseRange(range);
+	if (!version || !sets) {
+		return false;
+	}
+
+	return sets.some(set => (
+		set.every(comparator => test(version, comparator)) &&
+		(
+			// prereleases only match ranges explicitly mentioning a prerelease of the same version
+			version.prerelease.length === 0 ||
+			set.some(({ version: it }) => (
+				it.prerelease.length > 0 &&
+				it.major === version.major &&
+				it.minor === version.minor &&
+				it.patch === version.patch
+			))
+		)
+	));
+}
+
+/**
+ * Checks whether a specifier uses the npm range syntax.
+ */
+export function isRange(range: string): boolean {
+	return parseRange(range) !== null;
+}
+
+function parsePrerelease(text?: string): (string | number)[] {
+	return text
+		? text.split(".").map(it => /^\d+$/.test(it) ? +it : it)
+		: [];
+}
+
+function comparePrerelease(a: readonly (string | number)[], b: readonly (string | number)[]) {
+	// a version without a prerelease has higher precedence
+	if (a.length === 0 || b.length === 0) {
+		return b.length - a.length;
+	}
+
+	const length = Math.max(a.length, b.length);
+	let index = 0;
+	let x;
+	let y;
+
+	for (; index < length; index += 1) {
+		x = a[index];
+		y = b[index];
+		if (x === y) {
+			continue;
+		}
+
+		if (x === undefined || y === undefined) {
+			return x === undefined ? -1 : 1;
+		}
+
+		if (typeof x === "number" && typeof y === "number") {
+			return x - y;
+		}
+
+		if (typeof x === "number" || typeof y === "number") {
+			return typeof x === "number" ? -1 : 1;
+		}
+
+		return x < y ? -1 : 1;
+	}
+
+	return 0;
+}
+
+function test(version: Version, { operator, version: bound }: Comparator) {
+	const diff = compareVersions(version, bound);
+	switch (operator) {
+		case "<":
+			return diff < 0;
+
+		case "<=":
+			return diff <= 0;
+
+		case ">":
+			return diff > 0;
+
+		case ">=":
+			return diff >= 0;
+
+		case "=":
+			return diff === 0;
+	}
+}
+
+function parseRange(range: string): Comparator[][] | null {
+	const sets: Comparator[][] = [];
+	for (const part of range.split("||")) {
+		const set = parseComparatorSet(part.trim());
+		if (!set) {
+			return null;
+		}
+
+		sets.push(set);
+	}
+
+	return sets;
+}
+
+function parseComparatorSet(text: string): Comparator[] | null {
+	const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+	if (hyphen) {
+		const lower = parsePartial(hyphen[1]);
+		const upper = parsePartial(hyphen[2]);
+		return lower && upper
+			? [ ...desugar(">=", lower), ...desugar("<=", upper) ]
+			: null;
+	}
+
+	const set: Comparator[] = [];
+	const tokens = text
+		// glue operators to their versions, e.g. `>= 1.0.0`
+		.replace(/(<=|>=|<|>|=|\^|~>?)\s+/g, "$1")
+		.split(/\s+/)
+		.filter(Boolean);
+
+	for (const token of tokens) {
+		const [ , operator = "", rest ] = COMPARATOR_REGEX.exec(token)!;
+		const partial = parsePartial(rest);
+		if (!partial) {
+			return null;
+		}
+
+		set.push(...desugar(operator, partial));
+	}
+
+	return set;
+}
+
+function parsePartial(text: string): PartialVersion | null {
+	const match = PARTIAL_REGEX.exec(text);
+	if (!match) {
+		return null;
+	}
+
+	const toNumber = (value?: string) => value === undefined || /^[xX*]$/.test(value) ? undefined : +value;
+	const major = toNumber(match[1]);
+	const minor = major === undefined ? undefined : toNumber(match[2]);
+	const patch = minor === undefined ? undefined : toNumber(match[3]);
+
+	return {
+		major,
+		minor,
+		patch,
+		prerelease: patch === undefined ? [] : parsePrerelease(match[4]),
+	};
+}
+
+function version(major: number, minor = 0, patch = 0, prerelease: readonly (string | number)[] = []): Version {
+	return {
+		major,
+		minor,
+		patch,
+		prerelease,
+	};
+}
+
+/**
+ * Translates a comparator with a partial version into a set of primitive comparators.
+ */
+function desugar(operator: string, partial: PartialVersion): Comparator[] {
+	const { major, minor, patch, prerelease } = partial;
+	const lower = version(major ?? 0, minor ?? 0, patch ?? 0, prerelease);
+	const any: Comparator[] = [ { operator: ">=", version: version(0, 0, 0) } ];
+
+	// the lowest version not matched by the partial version, e.g. 1.3.0-0 for 1.2
+	const upper = (prerelease: readonly number[] = [ 0 ]) => (
+		minor === undefined
+			? version(major! + 1, 0, 0, prerelease)
+			: version(major!, minor + 1, 0, prerelease)
+	);
+
+	switch (operator) {
+		case "^": {
+			if (major === undefined) {
+				return any;
+			}
+
+			let bound;
+			if (major !== 0 || minor === undefined) {
+				bound = version(major + 1, 0, 0, [ 0 ]);
+			}
+			else if (minor !== 0 || patch === undefined) {
+				bound = version(0, minor + 1, 0, [ 0 ]);
+			}
+			else {
+				bound = version(0, 0, patch + 1, [ 0 ]);
+			}
+
+			return [ { operator: ">=", version: lower }, { operator: "<", version: bound } ];
+		}
+
+		case "~":
+		case "~>":
+			if (major === undefined) {
+				return any;
+			}
+
+			return [ { operator: ">=", version: lower }, { operator: "<", version: upper() } ];
+
+		case ">":
+			if (major === undefined) {
+				return [ { operator: "<", version: version(0, 0, 0, [ 0 ]) } ];
+			}
+
+			// prereleases of the next version do not match, e.g. >1.2 is >=1.3.0
+			return patch === undefined
+				? [ { operator: ">=", version: upper([]) } ]
+				: [ { operator: ">", version: lower } ];
+
+		case ">=":
+			return major === undefined ? any : [ { operator: ">=", version: lower } ];
+
+		case "<":
+			if (major === undefined) {
+				return [ { operator: "<", version: version(0, 0, 0, [ 0 ]) } ];
+			}
+
+			return [ { operator: "<", version: patch === undefined ? version(major, minor ?? 0, 0, [ 0 ]) : lower } ];
+
+		case "<=":
+			if (major === undefined) {
+				return any;
+			}
+
+			return patch === undefined
+				? [ { operator: "<", version: upper() } ]
+				: [ { operator: "<=", version: lower } ];
+
+		default:
+			if (major === undefined) {
+				return any;
+			}
+
+			return patch === undefined
+				? [ { operator: ">=", version: lower }, { operator: "<", version: upper() } ]
+				: [ { operator: "=", version: lower } ];
+	}
+}
@@ -0,0 +1,192 @@
+import type { DependencyMapKey, GraphEdge, GraphNode, TraversalResult, WorkspaceGraph } from "./dependencies";
+
+export interface SerializeOptions {
+	/**
+	 * Name of a module to highlight.
+	 *
+	 * Defaults to the origin of a traversal result, or none for a graph.
+	 */
+	readonly highlight?: string;
+
+	/**
+	 * Whether edges are styled by the dependency maps listing them. Production dependencies are
+	 * drawn as solid lines, other kinds are dashed or dotted and labeled.
+	 *
+	 * Defaults to true.
+	 */
+	readonly styleEdges?: boolean;
+}
+
+/**
+ * A stable JSON representation of a dependency graph. Nodes are sorted by name, edges by the
+ * names of the dependent and the dependency.
+ */
+export interface GraphJson {
+	readonly version: 1;
+
+	/** name of the highlighted module, if any */
+	readonly highlight: string | null;
+	readonly nodes: readonly GraphJsonNode[];
+	readonly edges: readonly GraphJsonEdge[];
+}
+
+export interface GraphJsonNode {
+	readonly name: string;
+	readonly version: string | null;
+}
+
+export interface GraphJsonEdge {
+	/** name of the dependent module */
+	readonly from: string;
+
+	/** name of the dependency */
+	readonly to: string;
+	readonly kinds: readonly DependencyMapKey[];
+	readonly specifiers: { readonly [K in DependencyMapKey]?: string };
+}
+
+interface EdgeStyle {
+	readonly label: string;
+	readonly dot: string;
+	readonly mermaid: string;
+}
+
+/** edge kinds sorted by significance, the most significant kind of an edge decides its style */
+const EDGE_STYLES: { readonly [K in DependencyMapKey]: EdgeStyle } = {
+	dependencies: { label: "", dot: "solid", mermaid: "-->" },
+	optionalDependencies: { label: "optional", dot: "dashed", mermaid: "-.->" },
+	peerDependencies: { label: "peer", dot: "dotted", mermaid: "-.->" },
+	devDependencies: { label: "dev", dot: "dashed", mermaid: "-.->" },
+};
+
+const KIND_ORDER = Object.keys(EDGE_STYLES) as DependencyMapKey[];
+
+/**
+ * Serializes a workspace graph or a traversal result into the Graphviz DOT language.
+ */
+export function toDot(source: WorkspaceGraph | TraversalResult, options?: SerializeOptions): string {
+	const { nodes, edges, highlight } = collect(source, options);
+	const ids = new Map(nodes.map(node => [ node, quote(node.module.package.name) ]));
+	const lines = [
+		"digraph workspace {",
+		"\trankdir=LR;",
+		"\tnode [shape=box];",
+	];
+
+	for (const node of nodes) {
+		lines.push(node === highlight
+			? `\t${ids.get(node)} [style="filled,bold", fillcolor="#ffe08a"];`
+			: `\t${ids.get(node)};`);
+	}
+
+	for (const edge of edges) {
+		const style = options?.styleEdges !== false ? getEdgeStyle(edge) : EDGE_STYLES.dependencies;
+		const attributes = style.label ? ` [style=${style.dot}, label=${quote(style.label)}]` : "";
+		lines.push(`\t${ids.get(edge.from)} -> ${ids.get(edge.to)}${attributes};`);
+	}
+
+	lines.push("}");
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * Serializes a workspace graph or a traversal result into a Mermaid flowchart.
+ */
+export function toMermaid(source: WorkspaceGraph | TraversalResult, options?: SerializeOptions): string {
+	const { nodes, edges, highlight } = collect(source, options);
+	const ids = new Map(nodes.map((node, index) => [ node, `n${index}` ]));
+	const lines = [
+		"flowchart LR",
+	];
+
+	for (const node of nodes) {
+		lines.push(`\t${ids.get(node)}["${escapeMermaid(node.module.package.name)}"]`);
+	}
+
+	for (const edge of edges) {
+		const style = options?.styleEdges !== false ? getEdgeStyle(edge) : EDGE_STYLES.dependencies;
+		const label = style.label ? `|${style.label}|` : "";
+		lines.push(`\t${ids.get(edge.from)} ${style.mermaid}${label} ${ids.get(edge.to)}`);
+	}
+
+	if (highlight) {
+		lines.push("\tclassDef highlight fill:#ffe08a,stroke-width:2px");
+		lines.push(`\tclass ${ids.get(highlight)} highlight`);
+	}
+
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * Converts a workspace graph or a traversal result into a stable JSON representation.
+ */
+export function toGraphJson(source: WorkspaceGraph | TraversalResult, options?: SerializeOptions): GraphJson {
+	const { nodes, edges, highlight } = collect(source, options);
+	return {
+		version: 1,
+		highlight: highlight?.module.package.name ?? null,
+		nodes: nodes.map(({ module }) => ({
+			name: module.package.name,
+			version: module.package.version ?? null,
+		})),
+		edges: edges.map(edge => ({
+			from: edge.from.module.package.name,
+			to: edge.to.module.package.name,
+			kinds: KIND_ORDER.filter(kind => edge.kinds.includes(kind)),
+			specifiers: KIND_ORDER.reduce<{ [K in DependencyMapKey]?: string }>((map, kind) => {
+				if (edge.specifiers[kind] !== undefined) {
+					map[kind] = edge.specifiers[kind];
+				}
+
+				return map;
+			}, {}),
+		})),
+	};
+}
+
+/**
+ * Gathers the nodes and the edges between them, sorted by name for a stable output.
+ */
+function collect(source: WorkspaceGraph | TraversalResult, options?: SerializeOptions) {
+	const isGraph = "nodes" in source;
+	const nodes = [ ...(isGraph ? source.nodes : source.orderedNodes) ].sort(compareNodes);
+	const included = new Set(nodes);
+	const edges = nodes
+		.flatMap(node => node.dependencyEdges.filter(edge => included.has(edge.to)))
+		.sort((a, b) => compareNodes(a.from, b.from) || compareNodes(a.to, b.to));
+
+	let highlight: GraphNode | undefined;
+	if (options?.highlight !== undefined) {
+		highlight = nodes.find(node => node.module.package.name === options.highlight);
+		if (!highlight) {
+			throw new Error(`No module '${options.highlight}' could be found in the graph.`);
+		}
+	}
+	else if (!isGraph && included.has(source.origin)) {
+		highlight = source.origin;
+	}
+
+	return {
+		nodes,
+		edges,
+		highlight,
+	};
+}
+
+function compareNodes(a: GraphNode, b: GraphNode) {
+	const x = a.module.package.name;
+	const y = b.module.package.name;
+	return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function getEdgeStyle(edge: GraphEdge) {
+	return EDGE_STYLES[KIND_ORDER.find(kind => edge.kinds.includes(kind))!];
+}
+
+function quote(text: string) {
+	return `"${text.replace(/["\\]/g, "\\$&")}"`;
+}
+
+function escapeMermaid(text: string) {
+	return text.replace(/"/g, "#quot;");
+}
@@ -1,21 +1,138 @@
 export interface Workspace {
 	root: Module;
 	modules: Module[];
+
+	/** the configuration layout the workspace module patterns were read from */
+	layout: WorkspaceLayout;
+
+	/** glob patterns locating the workspace modules, including negated ones */
+	patterns: string[];
+
+	/** the enclosing workspace, only set when discovered with the `nested` option */
+	parent?: Workspace;
+
+	/** workspaces nested within this one, only set when discovered with the `nested` option */
+	nested?: Workspace[];
 }
 
+/**
+ * Describes where the workspace module patterns are declared:
+ * - `npm` - a string array in the `workspaces` field of the root package.json (npm, Yarn, Bun)
+ * - `yarn` - the object form of the `workspaces` field, i.e. `{ packages, nohoist }` (Yarn)
+ * - `pnpm` - the `packages` list of a pnpm-workspace.yaml file (pnpm)
+ */
+export type WorkspaceLayout =
+	| "npm"
+	| "yarn"
+	| "pnpm";
+
 export interface Module {
 	baseDir: string;
 	package: PackageDeclaration;
+
+	/**
+	 * third-party packages the module depends on directly or indirectly, only set when
+	 * discovered with the `lockfile` option
+	 */
+	externals?: ExternalPackage[];
+}
+
+/**
+ * A third-party package as resolved by the lockfile.
+ */
+export interface ExternalPackage {
+	name: string;
+	version: string;
+
+	/** identifies the package within the lockfile, e.g. `rollup@npm:4.9.0` */
+	resolution: string;
+
+	/** checksum or integrity of the package, null if the lockfile does not list one */
+	checksum: string | null;
 }
 
 export interface PackageDeclaration {
 	name: string;
 	version: string;
-	workspaces?: string[];
+	description?: string;
+	keywords?: string[];
+	homepage?: string;
+	bugs?: string | BugsDeclaration;
+	license?: string;
+	author?: string | PersonDeclaration;
+	contributors?: (string | PersonDeclaration)[];
+	funding?: FundingDeclaration | FundingDeclaration[];
+	repository?: string | RepositoryDeclaration;
+	private?: boolean;
+	type?: "module" | "commonjs";
+	files?: string[];
+	main?: string;
+	module?: string;
+	browser?: string | { [TPath in string]?: string | false };
+	types?: string;
+	typings?: string;
+	exports?: ExportsDeclaration;
+	imports?: { [TSpecifier in string]?: ExportsDeclaration };
+	bin?: string | { [TCommand in string]?: string };
+	man?: string | string[];
+	directories?: { [TKey in string]?: string };
+	scripts?: { [TScript in string]?: string };
+	config?: { [TKey in string]?: unknown };
+	engines?: { [TEngine in string]?: string };
+	os?: string[];
+	cpu?: string[];
+	sideEffects?: boolean | string[];
+	packageManager?: string;
+	publishConfig?: { [TKey in string]?: unknown };
+	workspaces?: string[] | WorkspacesDeclaration;
 	dependencies?: DependencyMap;
 	devDependencies?: DependencyMap;
 	peerDependencies?: DependencyMap;
+	peerDependenciesMeta?: { [TName in string]?: PeerDependencyMeta };
 	optionalDependencies?: DependencyMap;
+	bundleDependencies?: boolean | string[];
+	overrides?: { [TName in string]?: unknown };
+	resolutions?: { [TName in string]?: string };
 }
 
+export interface WorkspacesDeclaration {
+	packages?: string[];
+	nohoist?: string[];
+}
+
+export interface PersonDeclaration {
+	name: string;
+	email?: string;
+	url?: string;
+}
+
+export interface BugsDeclaration {
+	url?: string;
+	email?: string;
+}
+
+export type FundingDeclaration =
+	| string
+	| { type?: string; url: string };
+
+export interface RepositoryDeclaration {
+	type: string;
+	url: string;
+	directory?: string;
+}
+
+export interface PeerDependencyMeta {
+	optional?: boolean;
+}
+
+/**
+ * Package entry points, either a path, a list of fallbacks, a map of subpaths or a map of
+ * conditions. A null value excludes the subpath or condition.
+ */
+export type ExportsDeclaration =
+	| string
+	| null
+	| ExportsDeclaration[]
+	| { [TSubpathOrCondition in string]?: ExportsDeclaration };
+
 export type DependencyMap = { [TName in string]?: string };
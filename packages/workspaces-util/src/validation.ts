@@ -0,0 +1,274 @@
+import { parseVersion } from "./semver";
+
+export interface ManifestIssue {
+	/** JSON path of the malformed value, e.g. `$.exports["./utils"].import` */
+	readonly path: string;
+	readonly message: string;
+}
+
+export interface ManifestValidationError extends Error {
+	/** absolute path of the validated 'package.json' file */
+	filePath: string;
+	issues: ManifestIssue[];
+}
+
+const EOL_INDENT = "\n  - ";
+
+/** @internal */
+export function createValidationError(filePath: string, issues: ManifestIssue[]): ManifestValidationError {
+	const details = issues.map(it => `${EOL_INDENT}${it.path}: ${it.message}`).join("");
+	const error = new Error(`Invalid 'package.json' file at '${filePath}':${details}`) as ManifestValidationError;
+	error.filePath = filePath;
+	error.issues = issues;
+
+	return error;
+}
+
+interface Validator {
+	(value: unknown, path: string, issues: ManifestIssue[]): void;
+}
+
+const NAME_REGEX = /^(?:@[a-z0-9-*~][a-z0-9-*._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * Checks the contents of a parsed 'package.json' file against the known manifest fields. Unknown
+ * fields are ignored, missing fields are not reported. Returns a list of issues, which is empty
+ * for a well-formed manifest.
+ */
+export function validateManifest(manifest: unknown): ManifestIssue[] {
+	const issues: ManifestIssue[] = [];
+	manifestValidator(manifest, "$", issues);
+	return issues;
+}
+
+function report(issues: ManifestIssue[], path: string, message: string) {
+	issues.push({
+		path,
+		message,
+	});
+}
+
+function childPath(path: string, key: string | number) {
+	if (typeof key === "number") {
+		return `${path}[${key}]`;
+	}
+
+	return /^[A-Za-z_$][\w$]*$/.test(key)
+		? `${path}.${key}`
+		: `${path}[${JSON.stringify(key)}]`;
+}
+
+function isObject(value: unknown): value is { readonly [K in string]?: unknown } {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function describe(value: unknown) {
+	if (value === null) {
+		return "null";
+	}
+
+	return Array.isArray(value) ? "an array" : `a ${typeof value}`;
+}
+
+
+// primitive validators
+
+const string: Validator = (value, path, issues) => {
+	if (typeof value !== "string") {
+		report(issues, path, `Expected a string, got ${describe(value)}.`);
+	}
+};
+
+const boolean: Validator = (value, path, issues) => {
+	if (typeof value !== "boolean") {
+		report(issues, path, `Expected a boolean, got ${describe(value)}.`);
+	}
+};
+
+const falseValue: Validator = (value, path, issues) => {
+	if (value !== false) {
+		report(issues, path, `Expected false, got ${JSON.stringify(value) ?? describe(value)}.`);
+	}
+};
+
+const object: Validator = (value, path, issues) => {
+	if (!isObject(value)) {
+		report(issues, path, `Expected an object, got ${describe(value)}.`);
+	}
+};
+
+const name: Validator = (value, path, issues) => {
+	if (typeof value !== "string") {
+		report(issues, path, `Expected a string, got ${describe(value)}.`);
+	}
+	else if (value.length > 214 || !NAME_REGEX.test(value)) {
+		report(issues, path, `'${value}' is not a valid package name.`);
+	}
+};
+
+const version: Validator = (value, path, issues) => {
+	if (typeof value !== "string") {
+		report(issues, path, `Expected a string, got ${describe(value)}.`);
+	}
+	else if (!parseVersion(value)) {
+		report(issues, path, `'${value}' is not a valid semver version.`);
+	}
+};
+
+
+// combinators
+
+function arrayOf(item: Validator): Validator {
+	return (value, path, issues) => {
+		if (!Array.isArray(value)) {
+			report(issues, path, `Expected an array, got ${describe(value)}.`);
+			return;
+		}
+
+		value.forEach((it, index) => item(it, childPath(path, index), issues));
+	};
+}
+
+function mapOf(item: Validator): Validator {
+	return (value, path, issues) => {
+		if (!isObject(value)) {
+			report(issues, path, `Expected an object, got ${describe(value)}.`);
+			return;
+		}
+
+		for (const key in value) {
+			item(value[key], childPath(path, key), issues);
+		}
+	};
+}
+
+function shape(fields: { readonly [K in string]?: Validator }, required: readonly string[] = []): Validator {
+	return (value, path, issues) => {
+		if (!isObject(value)) {
+			report(issues, path, `Expected an object, got ${describe(value)}.`);
+			return;
+		}
+
+		for (const key of required) {
+			if (value[key] === undefined) {
+				report(issues, childPath(path, key), "Required field is missing.");
+			}
+		}
+
+		let field;
+		for (const key in value) {
+			if ((field = fields[key]) && value[key] !== undefined) {
+				field(value[key], childPath(path, key), issues);
+			}
+		}
+	};
+}
+
+/**
+ * Accepts a value matching any of the validators. Validators are picked by the JSON type of the
+ * value, so that nested issues of the matching alternative can be reported.
+ */
+function oneOf(alternatives: { readonly string?: Validator; readonly boolean?: Validator; readonly array?: Validator; readonly object?: Validator; readonly null?: Validator }): Validator {
+	return (value, path, issues) => {
+		const type = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+		const validator = alternatives[type as keyof typeof alternatives];
+		if (validator) {
+			validator(value, path, issues);
+			return;
+		}
+
+		const expected = Object.keys(alternatives).map(it => it === "null" ? "null" : `${/^[aeiou]/.test(it) ? "an" : "a"} ${it}`);
+		report(issues, path, `Expected ${expected.join(" or ")}, got ${describe(value)}.`);
+	};
+}
+
+function literal(...values: readonly string[]): Validator {
+	return (value, path, issues) => {
+		if (!values.includes(value as string)) {
+			report(issues, path, `Expected one of ${values.map(it => `'${it}'`).join(", ")}, got ${JSON.stringify(value) ?? describe(value)}.`);
+		}
+	};
+}
+
+
+// manifest fields
+
+const stringArray = arrayOf(string);
+const stringMap = mapOf(string);
+
+const person = oneOf({
+	string,
+	object: shape({ name: string, email: string, url: string }, [ "name" ]),
+});
+
+const funding = oneOf({
+	string,
+	object: shape({ type: string, url: string }, [ "url" ]),
+});
+
+const exportsValidator: Validator = (value, path, issues) => {
+	if (isObject(value)) {
+		// subpath keys starting with a dot cannot be mixed with condition keys
+		const keys = Object.keys(value);
+		const subpathCount = keys.filter(it => it.startsWith(".")).length;
+		if (subpathCount > 0 && subpathCount < keys.length) {
+			report(issues, path, "Subpaths starting with '.' cannot be mixed with conditions.");
+		}
+	}
+
+	exportsTarget(value, path, issues);
+};
+
+const exportsTarget: Validator = oneOf({
+	string,
+	null: () => {},
+	array: (value, path, issues) => exportsArray(value, path, issues),
+	object: (value, path, issues) => exportsMap(value, path, issues),
+});
+
+const exportsArray = arrayOf(exportsTarget);
+const exportsMap = mapOf(exportsValidator);
+
+const manifestValidator = shape({
+	name,
+	version,
+	description: string,
+	keywords: stringArray,
+	homepage: string,
+	bugs: oneOf({ string, object: shape({ url: string, email: string }) }),
+	license: string,
+	author: person,
+	contributors: arrayOf(person),
+	funding: oneOf({ string, object: funding, array: arrayOf(funding) }),
+	repository: oneOf({ string, object: shape({ type: string, url: string, directory: string }, [ "type", "url" ]) }),
+	private: boolean,
+	type: literal("module", "commonjs"),
+	files: stringArray,
+	main: string,
+	module: string,
+	browser: oneOf({ string, object: mapOf(oneOf({ string, boolean: falseValue })) }),
+	types: string,
+	typings: string,
+	exports: exportsValidator,
+	imports: mapOf(exportsValidator),
+	bin: oneOf({ string, object: stringMap }),
+	man: oneOf({ string, array: stringArray }),
+	directories: stringMap,
+	scripts: stringMap,
+	config: object,
+	engines: stringMap,
+	os: stringArray,
+	cpu: stringArray,
+	sideEffects: oneOf({ boolean, array: stringArray }),
+	packageManager: string,
+	publishConfig: object,
+	workspaces: oneOf({ array: stringArray, object: shape({ packages: stringArray, nohoist: stringArray }) }),
+	dependencies: stringMap,
+	devDependencies: stringMap,
+	peerDependencies: stringMap,
+	peerDependenciesMeta: mapOf(shape({ optional: boolean })),
+	optionalDependencies: stringMap,
+	bundleDependencies: oneOf({ boolean, array: stringArray }),
+	overrides: object,
+	resolutions: stringMap,
+});
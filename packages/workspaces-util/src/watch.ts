@@ -0,0 +1,339 @@
+import { EventEmitter } from "node:events";
+import { watch, type FSWatcher } from "node:fs";
+import { dirname, join } from "node:path";
+
+import { readWorkspaceConfig, resolveModulePaths } from "./config";
+import { createWorkspaceGraph, type WorkspaceGraph, type WorkspaceGraphOptions } from "./dependencies";
+import { discoverModule, discoverWorkspace, type DiscoverOptions } from "./discovery";
+import { normalizePattern } from "./glob";
+import { LOCKFILE_NAMES, resolveExternalPackages } from "./lockfile";
+import type { Module, PackageDeclaration, Workspace } from "./types";
+
+export interface WatchOptions extends Omit<DiscoverOptions, "nested">, WorkspaceGraphOptions {
+	/**
+	 * Time to wait for further changes before updating the workspace, so that a burst of changes
+	 * causes a single update.
+	 *
+	 * Defaults to 100.
+	 */
+	readonly debounceMs?: number;
+}
+
+export interface WorkspaceWatcher {
+	/** the watched workspace, updated in place as changes are detected */
+	readonly workspace: Workspace;
+
+	/** dependency graph of the current state of the workspace */
+	readonly graph: WorkspaceGraph;
+
+	on<K extends keyof WorkspaceEventMap>(type: K, listener: (event: WorkspaceEventMap[K]) => void): void;
+	off<K extends keyof WorkspaceEventMap>(type: K, listener: (event: WorkspaceEventMap[K]) => void): void;
+
+	/** stops watching the file system */
+	close(): void;
+}
+
+export interface WorkspaceEventMap {
+	moduleAdded: ModuleEvent;
+	moduleRemoved: ModuleEvent;
+	manifestChanged: ManifestChangedEvent;
+	graphChanged: WorkspaceEvent;
+
+	/** emitted after the external packages were resolved again from a changed lockfile */
+	lockfileChanged: WorkspaceEvent;
+
+	/**
+	 * Emitted when an update fails, e.g. due to a malformed manifest. Like with any EventEmitter,
+	 * the error is thrown if there is no listener.
+	 */
+	error: Error;
+}
+
+export interface WorkspaceEvent {
+	readonly workspace: Workspace;
+
+	/** dependency graph after the change */
+	readonly graph: WorkspaceGraph;
+}
+
+export interface ModuleEvent extends WorkspaceEvent {
+	readonly module: Module;
+}
+
+export interface ManifestChangedEvent extends ModuleEvent {
+	/** contents of the manifest before the change */
+	readonly previous: PackageDeclaration;
+}
+
+interface WatcherState {
+	workspace: Workspace;
+	graph: WorkspaceGraph;
+
+	/** paths matched by the workspace patterns, including directories without a manifest yet */
+	paths: string[];
+	emitter: EventEmitter;
+	watchers: Map<string, FSWatcher>;
+	dirtyManifests: Set<string>;
+	isConfigDirty: boolean;
+	isLockfileDirty: boolean;
+	isPending: boolean;
+	isUpdating: boolean;
+	isClosed: boolean;
+	timer?: NodeJS.Timeout;
+}
+
+const ROOT_CONFIG_FILES = [ "package.json", "pnpm-workspace.yaml" ];
+
+/**
+ * Discovers the workspace and keeps watching it for changes of the root configuration and of
+ * module manifests. Modules are detected when added to a directory matched by a workspace pattern
+ * or a directory already containing a module. Resolves to null if no workspace can be found.
+ */
+export async function watchWorkspace(options?: WatchOptions): Promise<WorkspaceWatcher | null> {
+	const workspace = await discoverWorkspace({ ...options, nested: false });
+	if (!workspace) {
+		return null;
+	}
+
+	const state: WatcherState = {
+		workspace,
+		graph: createWorkspaceGraph(workspace, options),
+		paths: await resolveModulePaths(workspace.root.baseDir, workspace.patterns),
+		emitter: new EventEmitter(),
+		watchers: new Map(),
+		dirtyManifests: new Set(),
+		isConfigDirty: false,
+		isLockfileDirty: false,
+		isPending: false,
+		isUpdating: false,
+		isClosed: false,
+	};
+
+	const schedule = () => {
+		clearTimeout(state.timer);
+		state.timer = setTimeout(() => {
+			void update(state, options, schedule);
+		}, options?.debounceMs ?? 100);
+	};
+
+	syncWatchers(state, options, schedule);
+
+	return {
+		get workspace() {
+			return state.workspace;
+		},
+		get graph() {
+			return state.graph;
+		},
+		on: (type, listener) => {
+			state.emitter.on(type, listener);
+		},
+		off: (type, listener) => {
+			state.emitter.off(type, listener);
+		},
+		close: () => {
+			state.isClosed = true;
+			clearTimeout(state.timer);
+			state.watchers.forEach(it => it.close());
+			state.watchers.clear();
+		},
+	};
+}
+
+/**
+ * Watches the root directory, the static base directory of each pattern, each path matched by
+ * the patterns, so that a manifest written into a new directory is noticed, and each module
+ * directory along with its parent. Watchers of directories no longer needed are closed.
+ */
+function syncWatchers(state: WatcherState, options: WatchOptions | undefined, schedule: () => void) {
+	const { root, modules, patterns } = state.workspace;
+	const dirs = new Set([ root.baseDir, ...state.paths ]);
+
+	for (const pattern of patterns) {
+		if (!pattern.startsWith("!")) {
+			dirs.add(join(root.baseDir, getStaticBase(pattern)));
+		}
+	}
+
+	for (const module of modules) {
+		dirs.add(module.baseDir);
+		dirs.add(dirname(module.baseDir));
+	}
+
+	state.watchers.forEach((watcher, dir) => {
+		if (!dirs.has(dir)) {
+			watcher.close();
+			state.watchers.delete(dir);
+		}
+	});
+
+	for (const dir of dirs) {
+		if (state.watchers.has(dir)) {
+			continue;
+		}
+
+		let watcher;
+		try {
+			watcher = watch(dir, (_, fileName) => {
+				if (dir === root.baseDir && ROOT_CONFIG_FILES.includes(fileName ?? "")) {
+					state.isConfigDirty = true;
+				}
+				else if (dir === root.baseDir && options?.lockfile && LOCKFILE_NAMES.includes(fileName ?? "")) {
+					state.isLockfileDirty = true;
+				}
+				else if (fileName === "package.json") {
+					state.dirtyManifests.add(dir);
+				}
+
+				schedule();
+			});
+		}
+		catch (_ex) {
+			// the directory does not exist (yet)
+			continue;
+		}
+
+		watcher.on("error", () => {
+			watcher.close();
+			state.watchers.delete(dir);
+			schedule();
+		});
+
+		state.watchers.set(dir, watcher);
+	}
+}
+
+async function update(state: WatcherState, options: WatchOptions | undefined, schedule: () => void) {
+	if (state.isClosed) {
+		return;
+	}
+
+	if (state.isUpdating) {
+		state.isPending = true;
+		return;
+	}
+
+	state.isUpdating = true;
+	try {
+		await rediscover(state, options);
+	}
+	catch (ex) {
+		state.emitter.emit("error", ex as Error);
+	}
+	finally {
+		state.isUpdating = false;
+	}
+
+	if (state.isClosed) {
+		return;
+	}
+
+	syncWatchers(state, options, schedule);
+	if (state.isPending) {
+		state.isPending = false;
+		schedule();
+	}
+}
+
+/**
+ * Updates the workspace in place, re-reading only the root configuration and manifests that were
+ * reported as changed, and emits events describing the differences.
+ */
+async function rediscover(state: WatcherState, options: WatchOptions | undefined) {
+	const { workspace } = state;
+	const dirtyManifests = new Set(state.dirtyManifests);
+	const isLockfileChanged = state.isLockfileDirty;
+	state.dirtyManifests.clear();
+	state.isLockfileDirty = false;
+
+	if (state.isConfigDirty) {
+		state.isConfigDirty = false;
+		const root = await discoverModule(workspace.root.baseDir, options);
+		const config = root && await readWorkspaceConfig(root);
+		if (!root || !config) {
+			throw new Error(`The workspace root at '${workspace.root.baseDir}' no longer declares any workspaces.`);
+		}
+
+		workspace.root.package = root.package;
+		workspace.layout = config.layout;
+		workspace.patterns = config.patterns;
+	}
+
+	const paths = await resolveModulePaths(workspace.root.baseDir, workspace.patterns);
+	state.paths = paths;
+	const previousModules = new Map(workspace.modules.map(it => [ it.baseDir, it ]));
+	const modules: Module[] = [];
+	const added: Module[] = [];
+	const changed: [ Module, PackageDeclaration ][] = [];
+
+	let module;
+	let discovered;
+
+	for (const path of paths) {
+		module = previousModules.get(path);
+		if (module && !dirtyManifests.has(path)) {
+			modules.push(module);
+			continue;
+		}
+
+		if (!(discovered = await discoverModule(path, options))) {
+			continue;
+		}
+
+		if (!module) {
+			modules.push(discovered);
+			added.push(discovered);
+			continue;
+		}
+
+		if (JSON.stringify(module.package) !== JSON.stringify(discovered.package)) {
+			changed.push([ module, module.package ]);
+			module.package = discovered.package;
+		}
+
+		modules.push(module);
+	}
+
+	const removed = workspace.modules.filter(it => !modules.includes(it));
+	workspace.modules = modules;
+	if (options?.lockfile) {
+		await resolveExternalPackages(workspace);
+	}
+
+	const graph = createWorkspaceGraph(workspace, options);
+	const isGraphChanged = describeGraph(graph) !== describeGraph(state.graph);
+	state.graph = graph;
+
+	const { emitter } = state;
+	removed.forEach(it => emitter.emit("moduleRemoved", { workspace, graph, module: it }));
+	added.forEach(it => emitter.emit("moduleAdded", { workspace, graph, module: it }));
+	changed.forEach(([ it, previous ]) => emitter.emit("manifestChanged", { workspace, graph, module: it, previous }));
+
+	if (isGraphChanged) {
+		emitter.emit("graphChanged", { workspace, graph });
+	}
+
+	if (isLockfileChanged) {
+		emitter.emit("lockfileChanged", { workspace, graph });
+	}
+}
+
+/**
+ * Describes the modules and edges of a graph, so that two graphs can be compared.
+ */
+function describeGraph(graph: WorkspaceGraph) {
+	return graph.nodes
+		.map(node => [
+			node.module.baseDir,
+			node.module.package.name,
+			...node.dependencyEdges.map(edge => `${edge.to.module.package.name}:${edge.kinds.join(",")}`),
+		].join("\0"))
+		.sort()
+		.join("\n");
+}
+
+function getStaticBase(pattern: string) {
+	const segments = normalizePattern(pattern).split("/");
+	const index = segments.findIndex(it => /[*?[\]{}()!+@]/.test(it));
+	return (index === -1 ? segments : segments.slice(0, index)).join("/");
+}